@@ -1,11 +1,13 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { createClient } from "@/lib/supabase/server"
-import { processUserQuery } from "@/lib/rag"
+import { parseChunkSearchFilters, processUserQuery } from "@/lib/rag"
 import { generateChatResponse } from "@/lib/openai"
 
 export async function POST(request: NextRequest) {
   try {
-    const { message, threadId } = await request.json();
+    // filters: optional { mentions, linkDomains, attachmentTypes, threadId } to
+    // narrow retrieval; filters.threadId is a thread of the imported export
+    const { message, threadId, filters } = await request.json();
 
     if (!message || !threadId) {
       return NextResponse.json(
@@ -14,6 +16,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const parsedFilters = parseChunkSearchFilters(filters);
+    if ("error" in parsedFilters) {
+      return NextResponse.json({ error: parsedFilters.error }, { status: 400 });
+    }
+
     // Get user from session
     const supabase = await createClient();
     const {
@@ -53,7 +60,11 @@ export async function POST(request: NextRequest) {
     const conversationHistory = (recentMessages || []).reverse();
 
     // Search for relevant chat history using RAG
-    const ragContext = await processUserQuery(message, user.id);
+    const ragContext = await processUserQuery(
+      message,
+      user.id,
+      parsedFilters.filters
+    );
 
     // Generate AI response using conversation history and RAG context
     const aiResponse = await generateChatResponse(
@@ -0,0 +1,34 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getChunkWithMessages } from "@/lib/chunk-provenance";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const chunk = await getChunkWithMessages(id);
+    if (!chunk) {
+      return NextResponse.json({ error: "Chunk not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ chunk });
+  } catch (error) {
+    console.error("[v0] Error fetching chunk:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch chunk" },
+      { status: 500 }
+    );
+  }
+}
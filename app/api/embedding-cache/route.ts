@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getEmbeddingCacheStats,
+  getStoredEmbeddingCacheSummary,
+} from "@/lib/embedding-cache";
+
+export const runtime = "nodejs";
+
+// Hit rate of this server process, and size of the shared stored cache
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json({
+      process: getEmbeddingCacheStats(),
+      stored: await getStoredEmbeddingCacheSummary(),
+    });
+  } catch (error) {
+    console.error("[v0] Error fetching embedding cache stats:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch embedding cache stats" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { after, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  cutOverEmbeddingVersion,
+  getEmbeddingVersionStatus,
+} from "@/lib/embedding-versions";
+import { embedMissingChunks } from "@/lib/rag";
+import { embedMissingSummaries } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+/**
+ * Switch search to the backfilled version; the old one stays for rollback.
+ * Refused while chunks still lack a vector in it: the backfill runs in the
+ * background through POST /api/embedding-versions, not in this request.
+ */
+export async function POST() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const before = await getEmbeddingVersionStatus(user.id);
+    if (!before.target) {
+      return NextResponse.json(
+        { error: "No re-embedding in progress" },
+        { status: 409 }
+      );
+    }
+    const missing = before.target.total - before.target.embedded;
+    if (missing > 0) {
+      return NextResponse.json(
+        {
+          error: `${missing} chunks have no ${before.target.version} embedding yet; wait for the backfill to finish`,
+          missing,
+          status: before,
+        },
+        { status: 409 }
+      );
+    }
+
+    const result = await cutOverEmbeddingVersion(user.id);
+    after(async () => {
+      try {
+        await embedMissingChunks(user.id);
+        await embedMissingSummaries(user.id);
+      } catch (error) {
+        console.error("[v0] Embedding after cut-over failed:", error);
+      }
+    });
+
+    const status = await getEmbeddingVersionStatus(user.id);
+    return NextResponse.json({ success: true, ...result, status });
+  } catch (error) {
+    console.error("[v0] Error cutting over embeddings:", error);
+    return NextResponse.json(
+      { error: "Failed to switch embedding version" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { after, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getEmbeddingVersionStatus,
+  rollbackEmbeddingVersion,
+} from "@/lib/embedding-versions";
+import { embedMissingChunks } from "@/lib/rag";
+import { embedMissingSummaries } from "@/lib/summaries";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+// Switch search back to the version replaced by the last cut-over
+export async function POST() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const before = await getEmbeddingVersionStatus(user.id);
+    if (!before.previous) {
+      return NextResponse.json(
+        { error: "No previous embedding version to roll back to" },
+        { status: 409 }
+      );
+    }
+
+    const result = await rollbackEmbeddingVersion(user.id);
+    after(async () => {
+      try {
+        await embedMissingChunks(user.id);
+        await embedMissingSummaries(user.id);
+      } catch (error) {
+        console.error("[v0] Embedding after rollback failed:", error);
+      }
+    });
+
+    const status = await getEmbeddingVersionStatus(user.id);
+    return NextResponse.json({ success: true, ...result, status });
+  } catch (error) {
+    console.error("[v0] Error rolling back embeddings:", error);
+    return NextResponse.json(
+      { error: "Failed to roll back embedding version" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,95 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  backfillEmbeddingVersion,
+  getEmbeddingVersionStatus,
+  parseEmbeddingVersionConfig,
+  startReembedding,
+} from "@/lib/embedding-versions";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const status = await getEmbeddingVersionStatus(user.id);
+    return NextResponse.json({ status });
+  } catch (error) {
+    console.error("[v0] Error fetching embedding versions:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch embedding versions" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Start re-embedding into `provider` ({kind, model, dimensions}), or resume
+ * the current backfill when no provider is given. Http targets use the
+ * server's EMBEDDING_BASE_URL. Search keeps using the active version until
+ * POST /api/embedding-versions/cutover.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    if (body.provider !== undefined) {
+      const parsed = parseEmbeddingVersionConfig(body.provider);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: parsed.error }, { status: 400 });
+      }
+      try {
+        await startReembedding(user.id, parsed.config);
+      } catch (error) {
+        return NextResponse.json(
+          { error: error instanceof Error ? error.message : String(error) },
+          { status: 409 }
+        );
+      }
+    }
+
+    const status = await getEmbeddingVersionStatus(user.id);
+    if (!status.target) {
+      return NextResponse.json(
+        { error: "No re-embedding in progress" },
+        { status: 409 }
+      );
+    }
+
+    after(async () => {
+      try {
+        const embedded = await backfillEmbeddingVersion(user.id);
+        console.log(`[v0] Backfilled ${embedded} chunk embeddings`);
+      } catch (error) {
+        console.error("[v0] Embedding backfill failed:", error);
+      }
+    });
+
+    return NextResponse.json({ success: true, status }, { status: 202 });
+  } catch (error) {
+    console.error("[v0] Error starting re-embedding:", error);
+    return NextResponse.json(
+      { error: "Failed to start re-embedding" },
+      { status: 500 }
+    );
+  }
+}
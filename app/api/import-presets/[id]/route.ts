@@ -0,0 +1,33 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { deleteImportPreset } from "@/lib/import-presets";
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const deleted = await deleteImportPreset(user.id, id);
+    if (!deleted) {
+      return NextResponse.json({ error: "Preset not found" }, { status: 404 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[v0] Error deleting import preset:", error);
+    return NextResponse.json(
+      { error: "Failed to delete import preset" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { listImportPresets, saveImportPreset } from "@/lib/import-presets";
+import { getImporter, parseColumnMapping } from "@/lib/importers";
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const presets = await listImportPresets(user.id);
+    return NextResponse.json({ presets });
+  } catch (error) {
+    console.error("[v0] Error listing import presets:", error);
+    return NextResponse.json(
+      { error: "Failed to list import presets" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    const importer = typeof body.importer === "string" ? body.importer : "csv";
+    const mapping = parseColumnMapping(body.mapping);
+
+    if (!name) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+    if (!getImporter(importer)) {
+      return NextResponse.json(
+        { error: `Unknown importer: ${importer}` },
+        { status: 400 }
+      );
+    }
+    if (!mapping?.text) {
+      return NextResponse.json(
+        { error: "The mapping needs a text column" },
+        { status: 400 }
+      );
+    }
+
+    const preset = await saveImportPreset(user.id, name, importer, mapping);
+    return NextResponse.json({ preset });
+  } catch (error) {
+    console.error("[v0] Error saving import preset:", error);
+    return NextResponse.json(
+      { error: "Failed to save import preset" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,6 @@
+import { NextResponse } from "next/server";
+import { listImporters } from "@/lib/importers";
+
+export async function GET() {
+  return NextResponse.json({ importers: listImporters() });
+}
@@ -0,0 +1,42 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getIngestJob, isStale, runIngestJob } from "@/lib/ingest-jobs";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const job = await getIngestJob(id);
+    if (!job || job.user_id !== user.id) {
+      return NextResponse.json({ error: "Job not found" }, { status: 404 });
+    }
+
+    // Resume a job whose worker died mid-run (timeout, crash, redeploy)
+    if (isStale(job)) {
+      after(() => runIngestJob(job.id));
+    }
+
+    return NextResponse.json({ job });
+  } catch (error) {
+    console.error("[v0] Error fetching ingest job:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch ingest job" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { after, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { isStale, listIngestJobs, runIngestJob } from "@/lib/ingest-jobs";
+import {
+  getSummaryBuild,
+  isSummaryBuildStale,
+  runSummaryBuild,
+} from "@/lib/summary-builds";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [jobs, summaryBuild] = await Promise.all([
+      listIngestJobs(user.id),
+      getSummaryBuild(user.id),
+    ]);
+
+    // Pick up jobs whose worker died mid-run, and the summary build the last
+    // job queued when it did not finish in one run
+    const stale = jobs.filter(isStale);
+    const resumeSummaries =
+      summaryBuild !== null && isSummaryBuildStale(summaryBuild);
+    if (stale.length > 0 || resumeSummaries) {
+      after(async () => {
+        for (const job of stale) await runIngestJob(job.id);
+        if (resumeSummaries) await runSummaryBuild(user.id);
+      });
+    }
+
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error("[v0] Error listing ingest jobs:", error);
+    return NextResponse.json(
+      { error: "Failed to list ingest jobs" },
+      { status: 500 }
+    );
+  }
+}
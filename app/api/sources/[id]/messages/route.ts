@@ -0,0 +1,69 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { editSourceMessages, type MessageEdit } from "@/lib/chunk-provenance";
+import { embedMissingChunks } from "@/lib/rag";
+import { getChatSource } from "@/lib/sources";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+/**
+ * Delete or correct single messages of a source:
+ * { edits: [{ message_id, content }] } with content null to delete.
+ * Affected chunks are re-embedded in the background.
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const source = await getChatSource(id);
+    if (!source || source.user_id !== user.id) {
+      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const edits: MessageEdit[] = Array.isArray(body.edits)
+      ? body.edits.filter(
+          (e: Record<string, unknown>) =>
+            e &&
+            typeof e.message_id === "string" &&
+            (e.content === null || typeof e.content === "string")
+        )
+      : [];
+    if (edits.length === 0) {
+      return NextResponse.json(
+        { error: "No valid edits in the request" },
+        { status: 400 }
+      );
+    }
+
+    const result = await editSourceMessages(source, edits);
+    if (result.chunksUpdated > 0) {
+      after(() => embedMissingChunks(user.id));
+    }
+
+    return NextResponse.json({
+      chunks_updated: result.chunksUpdated,
+      chunks_deleted: result.chunksDeleted,
+      missing_message_ids: result.missingMessageIds,
+    });
+  } catch (error) {
+    console.error("[v0] Error editing source messages:", error);
+    return NextResponse.json(
+      { error: "Failed to edit messages" },
+      { status: 500 }
+    );
+  }
+}
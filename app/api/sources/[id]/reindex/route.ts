@@ -0,0 +1,50 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { runIngestJob } from "@/lib/ingest-jobs";
+import { getChatSource, reindexChatSource } from "@/lib/sources";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const source = await getChatSource(id);
+    if (!source || source.user_id !== user.id) {
+      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    }
+    if (!source.storage_path) {
+      return NextResponse.json(
+        {
+          error:
+            "This source was imported before uploads were stored; upload the file again to re-index it",
+        },
+        { status: 409 }
+      );
+    }
+
+    const job = await reindexChatSource(source);
+    after(() => runIngestJob(job.id));
+
+    return NextResponse.json({ success: true, job }, { status: 202 });
+  } catch (error) {
+    console.error("[v0] Error re-indexing source:", error);
+    return NextResponse.json(
+      { error: "Failed to re-index source" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { deleteChatSource, getChatSource } from "@/lib/sources";
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const source = await getChatSource(id);
+    if (!source || source.user_id !== user.id) {
+      return NextResponse.json({ error: "Source not found" }, { status: 404 });
+    }
+
+    const { chunksDeleted } = await deleteChatSource(source);
+    return NextResponse.json({ success: true, chunks_deleted: chunksDeleted });
+  } catch (error) {
+    console.error("[v0] Error deleting source:", error);
+    return NextResponse.json(
+      { error: "Failed to delete source" },
+      { status: 500 }
+    );
+  }
+}
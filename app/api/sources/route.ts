@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { listChatSources } from "@/lib/sources";
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const sources = await listChatSources();
+    return NextResponse.json({ sources });
+  } catch (error) {
+    console.error("[v0] Error listing sources:", error);
+    return NextResponse.json(
+      { error: "Failed to list sources" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { after, type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { isValidTimeZone } from "@/lib/dates";
+import { getSummaryCounts } from "@/lib/summaries";
+import {
+  getSummaryBuild,
+  isSummaryBuildStale,
+  queueSummaryBuild,
+  runSummaryBuild,
+} from "@/lib/summary-builds";
+
+export const runtime = "nodejs";
+export const maxDuration = 300;
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const [counts, build] = await Promise.all([
+      getSummaryCounts(user.id),
+      getSummaryBuild(user.id),
+    ]);
+
+    // Pick up a build that was handed off or whose worker died mid-run
+    if (build && isSummaryBuildStale(build)) {
+      after(() => runSummaryBuild(user.id));
+    }
+
+    return NextResponse.json({ counts, build });
+  } catch (error) {
+    console.error("[v0] Error fetching summaries:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch summaries" },
+      { status: 500 }
+    );
+  }
+}
+
+// Rebuild the summary layer in the background; ingest jobs also refresh it.
+// Progress is reported by GET, which also resumes an unfinished build.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const timeZone =
+      typeof body.timezone === "string" && isValidTimeZone(body.timezone)
+        ? body.timezone
+        : undefined;
+
+    const build = await queueSummaryBuild(user.id, timeZone);
+    after(() => runSummaryBuild(user.id));
+
+    return NextResponse.json({ success: true, build }, { status: 202 });
+  } catch (error) {
+    console.error("[v0] Error starting summary rebuild:", error);
+    return NextResponse.json(
+      { error: "Failed to start summary rebuild" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,194 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  buildImportPreview,
+  bytesChunks,
+  chunkWindowOptions,
+  createImportPreviewBuilder,
+  openStreamedUpload,
+  parseIngestOptions,
+  parseUpload,
+  readUploadHead,
+  sampledSource,
+  STREAMING_THRESHOLD_BYTES,
+} from "@/lib/ingest";
+import {
+  mergeRedactionCounts,
+  redactMessages,
+  type RedactionCounts,
+} from "@/lib/redaction";
+import {
+  getChatSourceByKey,
+  messagesAfterHighWaterMark,
+  sourceKeyFor,
+  streamedSourceKeyFor,
+  streamHighWaterFilter,
+} from "@/lib/sources";
+import { getWorkspaceSettings } from "@/lib/workspace-settings";
+import { getActiveEmbeddingProvider } from "@/lib/embedding-versions";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+/**
+ * Dry run of the upload pipeline: parse + chunk, but nothing is written or
+ * embedded. Takes the same request as POST /api/upload-chat-history. Only the
+ * first STREAMING_THRESHOLD_BYTES of the body are read; larger files are
+ * previewed from that sample when their format can stream.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const filename = params.get("filename");
+    const forcedImporter = params.get("importer");
+    const ingestOptions = parseIngestOptions(params);
+
+    if (!request.body || !filename) {
+      return NextResponse.json({ error: "No file provided" }, { status: 400 });
+    }
+    if ("error" in ingestOptions) {
+      return NextResponse.json({ error: ingestOptions.error }, { status: 400 });
+    }
+    const { options } = ingestOptions;
+    const { redaction } = options;
+
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    options.sizing = (await getWorkspaceSettings(user.id)).chunking;
+    const { bytes, complete } = await readUploadHead(
+      request.body,
+      STREAMING_THRESHOLD_BYTES
+    );
+
+    // Larger files are previewed from their first bytes, read incrementally
+    if (!complete) {
+      const streamed = await openStreamedUpload(
+        filename,
+        bytesChunks(bytes),
+        forcedImporter,
+        options
+      );
+      if (streamed && !streamed.ok) {
+        return NextResponse.json(streamed.body, { status: streamed.status });
+      }
+      if (!streamed) {
+        return NextResponse.json(
+          {
+            error: `Files over ${STREAMING_THRESHOLD_BYTES / 1024 / 1024} MB can only be previewed as JSON message arrays`,
+          },
+          { status: 413 }
+        );
+      }
+      const source = sampledSource(streamed.source);
+      const existing = await getChatSourceByKey(
+        user.id,
+        await streamedSourceKeyFor(source)
+      );
+      const { total, keep } = await streamHighWaterFilter(existing, source);
+      if (total === 0) {
+        return NextResponse.json(
+          { error: "No messages found in the file" },
+          { status: 400 }
+        );
+      }
+
+      const builder = createImportPreviewBuilder(
+        chunkWindowOptions(options),
+        await getActiveEmbeddingProvider(user.id)
+      );
+      const preview = builder.startSource(source.filename, source.label);
+      let alreadyImported = 0;
+      let redactionCounts: RedactionCounts = {};
+      let droppedMessages = 0;
+      let index = 0;
+      for await (const m of source.messages()) {
+        if (!keep(m, index++)) {
+          alreadyImported += 1;
+          continue;
+        }
+        const redacted = redactMessages([m], redaction);
+        redactionCounts = mergeRedactionCounts(
+          redactionCounts,
+          redacted.counts
+        );
+        droppedMessages += redacted.dropped;
+        for (const kept of redacted.messages) preview.add(kept);
+      }
+      preview.finish();
+
+      return NextResponse.json({
+        success: true,
+        importer: streamed.importer,
+        detection: streamed.detection,
+        inspection: null,
+        streamed: true,
+        // Counts cover this many bytes of the file, not all of it
+        sampled_bytes: bytes.length,
+        already_imported_messages: alreadyImported,
+        redaction: {
+          mode: redaction.mode,
+          counts: redactionCounts,
+          dropped_messages: droppedMessages,
+        },
+        ...builder.result(),
+      });
+    }
+
+    const parsed = parseUpload(bytes, filename, forcedImporter, options);
+    if (!parsed.ok) {
+      return NextResponse.json(parsed.body, { status: parsed.status });
+    }
+
+    // Preview what the ingest would actually add for already-known sources
+    let alreadyImported = 0;
+    let redactionCounts: RedactionCounts = {};
+    let droppedMessages = 0;
+    const sources = [];
+    for (const source of parsed.sources) {
+      const existing = await getChatSourceByKey(user.id, sourceKeyFor(source));
+      const { messages, skipped } = messagesAfterHighWaterMark(
+        existing,
+        source.messages
+      );
+      alreadyImported += skipped;
+      const redacted = redactMessages(messages, redaction);
+      redactionCounts = mergeRedactionCounts(redactionCounts, redacted.counts);
+      droppedMessages += redacted.dropped;
+      sources.push({ ...source, messages: redacted.messages });
+    }
+
+    return NextResponse.json({
+      success: true,
+      importer: parsed.importer,
+      detection: parsed.detection,
+      inspection: parsed.inspection,
+      already_imported_messages: alreadyImported,
+      redaction: {
+        mode: redaction.mode,
+        counts: redactionCounts,
+        dropped_messages: droppedMessages,
+      },
+      ...buildImportPreview(
+        sources,
+        chunkWindowOptions(options),
+        await getActiveEmbeddingProvider(user.id)
+      ),
+    });
+  } catch (error) {
+    console.error("[v0] Error previewing chat history:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred";
+    return NextResponse.json(
+      { error: `Failed to preview chat history: ${errorMessage}` },
+      { status: 500 }
+    );
+  }
+}
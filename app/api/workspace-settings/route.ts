@@ -0,0 +1,61 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  getWorkspaceSettings,
+  parseChunkSizing,
+  saveChunkingSettings,
+} from "@/lib/workspace-settings";
+
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const settings = await getWorkspaceSettings(user.id);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("[v0] Error fetching workspace settings:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch workspace settings" },
+      { status: 500 }
+    );
+  }
+}
+
+// Applies to uploads and re-indexes from now on; existing chunks keep the
+// settings they were built with (metadata.chunking)
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: userError,
+    } = await supabase.auth.getUser();
+
+    if (userError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = parseChunkSizing(body.chunking);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const settings = await saveChunkingSettings(user.id, parsed.sizing);
+    return NextResponse.json({ settings });
+  } catch (error) {
+    console.error("[v0] Error saving workspace settings:", error);
+    return NextResponse.json(
+      { error: "Failed to save workspace settings" },
+      { status: 500 }
+    );
+  }
+}
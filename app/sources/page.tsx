@@ -0,0 +1,14 @@
+import { redirect } from "next/navigation"
+import { createClient } from "@/lib/supabase/server"
+import { SourceManager } from "@/components/source-manager"
+
+export default async function SourcesPage() {
+  const supabase = await createClient()
+  const { data, error } = await supabase.auth.getUser()
+
+  if (error || !data?.user) {
+    redirect("/auth/login")
+  }
+
+  return <SourceManager />
+}
@@ -11,10 +11,27 @@ import {
   Trash2,
   LogOut,
   Upload,
+  Database,
 } from "lucide-react";
 import { createClient } from "@/lib/supabase/client"
 import { useRouter } from "next/navigation"
-import { useRef } from "react";
+import { useEffect, useRef, useState } from "react";
+import {
+  IngestJobProgress,
+  isJobFinished,
+  type IngestJob,
+} from "@/components/ingest-job-progress";
+import {
+  ColumnMappingPanel,
+  isTableInspection,
+  type ColumnMapping,
+  type TableInspection,
+} from "@/components/column-mapping-panel";
+import { ChunkingSettingsPanel } from "@/components/chunking-settings-panel";
+import {
+  DEFAULT_NOISE_FILTER_SETTINGS,
+  NoiseFilterPanel,
+} from "@/components/noise-filter-panel";
 
 interface ChatThread {
   id: string
@@ -23,6 +40,13 @@ interface ChatThread {
   updated_at: string
 }
 
+interface ImporterInfo {
+  id: string
+  name: string
+  description: string
+  extensions: string[]
+}
+
 interface ChatSidebarProps {
   threads: ChatThread[]
   activeThreadId: string | null
@@ -42,6 +66,58 @@ export function ChatSidebar({
 }: ChatSidebarProps) {
   const router = useRouter()
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importers, setImporters] = useState<ImporterInfo[]>([]);
+  // Empty string means auto-detect
+  const [selectedImporter, setSelectedImporter] = useState("");
+  // Empty string means the server default (PII_REDACTION_MODE)
+  const [redactionMode, setRedactionMode] = useState("");
+  const [chunkingMode, setChunkingMode] = useState("thread");
+  // Minutes of silence that start a new conversation session
+  const [sessionGap, setSessionGap] = useState("60");
+  const [noiseFilter, setNoiseFilter] = useState(DEFAULT_NOISE_FILTER_SETTINGS);
+  const [uploadJob, setUploadJob] = useState<IngestJob | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  // Tabular upload waiting for the user to confirm its column mapping
+  const [pendingTable, setPendingTable] = useState<{
+    file: File;
+    importerId: string;
+    inspection: TableInspection;
+    mapping?: ColumnMapping;
+    error?: string;
+  } | null>(null);
+
+  useEffect(() => {
+    fetch("/api/importers")
+      .then((res) => (res.ok ? res.json() : { importers: [] }))
+      .then((data) => setImporters(data.importers ?? []))
+      .catch((error) => console.error("Error loading importers:", error));
+
+    // Reattach to an ingest that is still running from an earlier visit
+    fetch("/api/ingest-jobs")
+      .then((res) => (res.ok ? res.json() : { jobs: [] }))
+      .then((data) => {
+        const running = (data.jobs ?? []).find(
+          (job: IngestJob) => !isJobFinished(job)
+        );
+        if (running) setUploadJob(running);
+      })
+      .catch((error) => console.error("Error loading ingest jobs:", error));
+  }, []);
+
+  const acceptedExtensions = Array.from(
+    new Set(
+      (selectedImporter
+        ? importers.filter((i) => i.id === selectedImporter)
+        : importers
+      ).flatMap((i) => i.extensions)
+    )
+  );
+  const accept =
+    acceptedExtensions.length > 0
+      ? acceptedExtensions.join(",")
+      : ".json,.zip,.txt,.csv";
+
   const handleSignOut = async () => {
     const supabase = createClient()
     await supabase.auth.signOut()
@@ -65,53 +141,101 @@ export function ChatSidebar({
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
+    setUploadError(null);
+    setPendingTable(null);
 
-    if (!file.name.toLowerCase().endsWith(".json")) {
-      alert("Please upload a JSON file containing your chat history.");
+    const lowerName = file.name.toLowerCase();
+    if (!accept.split(",").some((ext) => lowerName.endsWith(ext))) {
+      setUploadError(
+        `Please upload a chat history file (${accept.replace(/,/g, ", ")}).`
+      );
+      resetFileInput();
       return;
     }
 
-    const formData = new FormData();
-    formData.append("file", file);
-    formData.append("filename", file.name);
-
-    try {
-      const response = await fetch("/api/upload-chat-history", {
-        method: "POST",
-        body: formData,
-      });
+    await previewAndUpload(file);
+    resetFileInput();
+  };
 
-      let result;
-      const contentType = response.headers.get("content-type");
+  /**
+   * Preview the file, ask for confirmation, then start the ingest. Tabular
+   * files stop at the column mapping panel first; its Import button comes
+   * back here with the chosen mapping.
+   */
+  const previewAndUpload = async (
+    file: File,
+    columnMapping?: ColumnMapping
+  ) => {
+    // The file goes as the raw request body so the server can stream it;
+    // everything else rides in the query string
+    const params = new URLSearchParams();
+    params.append("filename", file.name);
+    if (selectedImporter) params.append("importer", selectedImporter);
+    if (redactionMode) params.append("redaction", redactionMode);
+    params.append("chunking", chunkingMode);
+    params.append("session_gap_minutes", sessionGap);
+    params.append("noise_packs", noiseFilter.packs.join(","));
+    params.append("noise_patterns", noiseFilter.patterns);
+    // Exports without a zone suffix are written in the exporter's local time,
+    // which is usually the uploader's
+    params.append("timezone", Intl.DateTimeFormat().resolvedOptions().timeZone);
+    if (columnMapping) {
+      params.append("column_mapping", JSON.stringify(columnMapping));
+    }
 
-      if (contentType && contentType.includes("application/json")) {
-        result = await response.json();
-      } else {
-        // Handle HTML error pages or plain text responses
-        const text = await response.text();
-        result = {
-          error: `Server error: ${response.status} ${response.statusText}`,
-        };
-        console.error("Non-JSON response:", text);
+    setIsUploading(true);
+    try {
+      const preview = await postUpload(
+        "/api/upload-chat-history/preview",
+        file,
+        params
+      );
+      if (isTableInspection(preview.result.inspection)) {
+        if (!columnMapping || !preview.ok) {
+          setPendingTable({
+            file,
+            importerId: preview.result.importer?.id ?? "csv",
+            inspection: preview.result.inspection,
+            mapping: columnMapping,
+            error: columnMapping ? preview.result.error : undefined,
+          });
+          return;
+        }
       }
-
-      if (response.ok && result.success) {
-        alert(
-          `Successfully processed ${result.processed} messages from your chat history!`
+      if (!preview.ok) {
+        setUploadError(
+          `Error reading file: ${preview.result.error || "Unknown error occurred"}`
         );
+        return;
+      }
+      if (!confirm(formatImportPreview(preview.result))) {
+        return;
+      }
+
+      const { ok, result } = await postUpload(
+        "/api/upload-chat-history",
+        file,
+        params
+      );
+
+      if (ok) {
+        setUploadJob(result.job);
       } else {
-        alert(
+        setUploadError(
           `Error uploading file: ${result.error || "Unknown error occurred"}`
         );
       }
     } catch (error) {
       console.error("Error uploading file:", error);
-      alert(
+      setUploadError(
         "Error uploading file. Please check your connection and try again."
       );
+    } finally {
+      setIsUploading(false);
     }
+  };
 
-    // Reset file input
+  const resetFileInput = () => {
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
@@ -226,22 +350,222 @@ export function ChatSidebar({
           variant="outline"
           size="sm"
           onClick={() => fileInputRef.current?.click()}
+          disabled={
+            isUploading ||
+            pendingTable !== null ||
+            (uploadJob !== null && !isJobFinished(uploadJob))
+          }
         >
           <Upload className="mr-2 h-3 w-3" />
-          Upload Chat History
+          {isUploading ? "Uploading..." : "Upload Chat History"}
+        </Button>
+        {uploadJob && (
+          <IngestJobProgress job={uploadJob} onUpdate={setUploadJob} />
+        )}
+        {pendingTable && (
+          <ColumnMappingPanel
+            key={pendingTable.file.name}
+            filename={pendingTable.file.name}
+            importerId={pendingTable.importerId}
+            inspection={pendingTable.inspection}
+            initialMapping={pendingTable.mapping}
+            error={pendingTable.error}
+            onImport={(mapping) => {
+              const { file } = pendingTable;
+              setPendingTable(null);
+              previewAndUpload(file, mapping);
+            }}
+            onCancel={() => setPendingTable(null)}
+          />
+        )}
+        {uploadError && (
+          <p className="text-xs text-destructive">{uploadError}</p>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => router.push("/sources")}
+        >
+          <Database className="mr-2 h-3 w-3" />
+          Manage Sources
         </Button>
+        <select
+          value={selectedImporter}
+          onChange={(e) => setSelectedImporter(e.target.value)}
+          className="w-full h-8 rounded-md border border-input bg-background px-2 text-xs"
+          title="File format"
+        >
+          <option value="">Auto-detect format</option>
+          {importers.map((importer) => (
+            <option
+              key={importer.id}
+              value={importer.id}
+              title={importer.description}
+            >
+              {importer.name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={redactionMode}
+          onChange={(e) => setRedactionMode(e.target.value)}
+          className="w-full h-8 rounded-md border border-input bg-background px-2 text-xs"
+          title="Redact personal data (emails, phone numbers, cards, addresses) before indexing"
+        >
+          <option value="">Default PII redaction</option>
+          <option value="off">No redaction</option>
+          <option value="mask">Mask PII</option>
+          <option value="hash">Hash PII</option>
+          <option value="drop">Drop messages with PII</option>
+        </select>
+        <select
+          value={chunkingMode}
+          onChange={(e) => setChunkingMode(e.target.value)}
+          className="w-full h-8 rounded-md border border-input bg-background px-2 text-xs"
+          title="How messages are grouped into searchable chunks"
+        >
+          <option value="thread">Chunk by thread</option>
+          <option value="sequential">Chunk in message order</option>
+        </select>
+        <select
+          value={sessionGap}
+          onChange={(e) => setSessionGap(e.target.value)}
+          className="w-full h-8 rounded-md border border-input bg-background px-2 text-xs"
+          title="Chunks never span a conversation break: this much silence, a new day, or new people joining after a pause"
+        >
+          <option value="30">New session after 30 min silence</option>
+          <option value="60">New session after 1 hour silence</option>
+          <option value="180">New session after 3 hours silence</option>
+          <option value="480">New session after 8 hours silence</option>
+        </select>
+        <NoiseFilterPanel value={noiseFilter} onChange={setNoiseFilter} />
+        <ChunkingSettingsPanel />
         <input
           ref={fileInputRef}
           type="file"
-          accept=".json"
+          accept={accept}
           onChange={handleFileUpload}
           className="hidden"
         />
         <p className="text-xs text-muted-foreground">
-          Upload a JSON file containing your chat history to enable intelligent
-          search
+          Upload a chat export (JSON, Google Takeout ZIP, Slack export ZIP,
+          WhatsApp .txt, Telegram result.json, mbox/.eml email, CSV/TSV) to
+          enable intelligent search
         </p>
       </div>
     </div>
   );
 }
+
+async function postUpload(url: string, file: File, params: URLSearchParams) {
+  const response = await fetch(`${url}?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/octet-stream" },
+    body: file,
+  });
+
+  let result;
+  const contentType = response.headers.get("content-type");
+
+  if (contentType && contentType.includes("application/json")) {
+    result = await response.json();
+  } else {
+    // Handle HTML error pages or plain text responses
+    const text = await response.text();
+    result = {
+      error: `Server error: ${response.status} ${response.statusText}`,
+    };
+    console.error("Non-JSON response:", text);
+  }
+
+  return { ok: response.ok && Boolean(result.success), result };
+}
+
+interface ImportPreview {
+  importer: { id: string; name: string };
+  total_messages: number;
+  already_imported_messages: number;
+  // Set when only the start of a large file was read
+  sampled_bytes?: number;
+  redaction: {
+    mode: string;
+    counts: Record<string, number>;
+    dropped_messages: number;
+  };
+  participants: Array<{ name: string; messages: number }>;
+  date_range: { earliest: string | null; latest: string | null };
+  date_parse_failures: number;
+  date_parse_failure_samples: string[];
+  chunk_count: number;
+  estimated_tokens: number;
+  estimated_cost_usd: number;
+  noise_filter: {
+    removed: number;
+    counts: Record<string, number>;
+    rules: Array<{ id: string; label: string }>;
+    invalid_patterns: string[];
+  };
+  sources: Array<{ filename: string }>;
+}
+
+function formatImportPreview(preview: ImportPreview): string {
+  const day = (iso: string | null) =>
+    iso ? new Date(iso).toLocaleDateString() : "unknown";
+  const topParticipants = preview.participants
+    .slice(0, 5)
+    .map((p) => `${p.name} (${p.messages})`)
+    .join(", ");
+  const moreParticipants =
+    preview.participants.length > 5
+      ? ` and ${preview.participants.length - 5} more`
+      : "";
+  const redacted = Object.entries(preview.redaction.counts)
+    .map(([id, n]) => `${id} ${n}`)
+    .join(", ");
+  const { noise_filter: noise } = preview;
+  const filtered = noise.rules
+    .filter((r) => noise.counts[r.id])
+    .map((r) => `${r.label} ${noise.counts[r.id]}`)
+    .join(", ");
+
+  return [
+    ...(preview.sampled_bytes
+      ? [
+          `Large file: counts below cover its first ${Math.round(preview.sampled_bytes / 1024 / 1024)} MB only`,
+        ]
+      : []),
+    `Format: ${preview.importer.name}`,
+    `Sources: ${preview.sources.length}`,
+    `Messages: ${preview.total_messages}${
+      preview.already_imported_messages > 0
+        ? ` new (${preview.already_imported_messages} already imported)`
+        : ""
+    }`,
+    ...(preview.redaction.mode !== "off"
+      ? [
+          `PII redaction (${preview.redaction.mode}): ${redacted || "nothing found"}${
+            preview.redaction.dropped_messages > 0
+              ? `, ${preview.redaction.dropped_messages} messages dropped`
+              : ""
+          }`,
+        ]
+      : []),
+    `Noise filtered: ${noise.removed}${filtered ? ` (${filtered})` : ""}`,
+    ...(noise.invalid_patterns.length > 0
+      ? [`Invalid patterns ignored: ${noise.invalid_patterns.join(", ")}`]
+      : []),
+    `Participants: ${topParticipants}${moreParticipants}`,
+    `Dates: ${day(preview.date_range.earliest)} - ${day(preview.date_range.latest)}`,
+    `Unparsed dates: ${preview.date_parse_failures}${
+      preview.date_parse_failures > 0
+        ? ` (e.g. ${preview.date_parse_failure_samples
+            .map((s) => `"${s}"`)
+            .join(", ")})`
+        : ""
+    }`,
+    `Chunks: ${preview.chunk_count}`,
+    `Estimated embedding cost: ~${preview.estimated_tokens.toLocaleString()} tokens ($${preview.estimated_cost_usd.toFixed(4)})`,
+    "",
+    "Import this file?",
+  ].join("\n");
+}
@@ -0,0 +1,86 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+interface ChunkSizing {
+  targetTokens: number
+  minTokens: number
+  maxTokens: number
+  overlapMessages: number
+}
+
+// Mirrors ChunkSizing in lib/rag
+const FIELDS: Array<{ key: keyof ChunkSizing; label: string }> = [
+  { key: "targetTokens", label: "Target tokens" },
+  { key: "minTokens", label: "Min tokens" },
+  { key: "maxTokens", label: "Max tokens" },
+  { key: "overlapMessages", label: "Overlap messages" },
+]
+
+/** Workspace chunk sizing, applied to new uploads and re-indexed sources */
+export function ChunkingSettingsPanel() {
+  const [sizing, setSizing] = useState<ChunkSizing | null>(null)
+  const [status, setStatus] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch("/api/workspace-settings")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => data && setSizing(data.settings.chunking))
+      .catch((err) => console.error("Error loading workspace settings:", err))
+  }, [])
+
+  const handleSave = async () => {
+    setError(null)
+    setStatus(null)
+    try {
+      const response = await fetch("/api/workspace-settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ chunking: sizing }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save settings")
+      setSizing(data.settings.chunking)
+      setStatus("Saved; applies to new uploads and re-indexes")
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save settings")
+    }
+  }
+
+  if (!sizing) return null
+
+  return (
+    <details className="rounded-md border border-sidebar-border p-2 text-xs">
+      <summary className="cursor-pointer">Chunk size</summary>
+      <div className="mt-2 space-y-1">
+        {FIELDS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2">
+            <span className="w-28 shrink-0">{label}</span>
+            <Input
+              type="number"
+              min={0}
+              value={sizing[key]}
+              onChange={(e) =>
+                setSizing({ ...sizing, [key]: Number(e.target.value) })
+              }
+              className="h-7 text-xs"
+            />
+          </label>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 w-full text-xs"
+          onClick={handleSave}
+        >
+          Save
+        </Button>
+        {status && <p className="text-muted-foreground">{status}</p>}
+        {error && <p className="text-destructive">{error}</p>}
+      </div>
+    </details>
+  )
+}
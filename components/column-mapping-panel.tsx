@@ -0,0 +1,238 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+
+export type ColumnMapping = Partial<Record<ColumnRole, string>>
+
+type ColumnRole =
+  | "text"
+  | "participant"
+  | "email"
+  | "timestamp"
+  | "thread_id"
+  | "message_id"
+
+// Mirrors COLUMN_ROLES in lib/importers/types
+const ROLES: Array<{ role: ColumnRole; label: string }> = [
+  { role: "text", label: "Message text" },
+  { role: "participant", label: "Participant" },
+  { role: "email", label: "Email" },
+  { role: "timestamp", label: "Timestamp" },
+  { role: "thread_id", label: "Thread id" },
+  { role: "message_id", label: "Message id" },
+]
+
+/** What the CSV importer's inspect() reports in the preview response */
+export interface TableInspection {
+  columns: string[]
+  delimiter: string
+  sample_rows: string[][]
+  row_count: number
+  suggested_mapping: ColumnMapping
+}
+
+interface ImportPreset {
+  id: string
+  name: string
+  importer: string
+  mapping: ColumnMapping
+}
+
+interface ColumnMappingPanelProps {
+  filename: string
+  importerId: string
+  inspection: TableInspection
+  // Mapping from the last attempt, so a failed import keeps the user's choice
+  initialMapping?: ColumnMapping
+  error?: string | null
+  onImport: (mapping: ColumnMapping) => void
+  onCancel: () => void
+}
+
+export function isTableInspection(value: unknown): value is TableInspection {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    Array.isArray((value as TableInspection).columns)
+  )
+}
+
+export function ColumnMappingPanel({
+  filename,
+  importerId,
+  inspection,
+  initialMapping,
+  error,
+  onImport,
+  onCancel,
+}: ColumnMappingPanelProps) {
+  const [mapping, setMapping] = useState<ColumnMapping>(
+    initialMapping ?? inspection.suggested_mapping
+  )
+  const [presets, setPresets] = useState<ImportPreset[]>([])
+  const [presetName, setPresetName] = useState("")
+  const [presetError, setPresetError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch("/api/import-presets")
+      .then((res) => (res.ok ? res.json() : { presets: [] }))
+      .then((data) =>
+        setPresets(
+          (data.presets ?? []).filter(
+            (p: ImportPreset) => p.importer === importerId
+          )
+        )
+      )
+      .catch((err) => console.error("Error loading import presets:", err))
+  }, [importerId])
+
+  const setRole = (role: ColumnRole, column: string) =>
+    setMapping((current) => {
+      const next = { ...current }
+      if (column) next[role] = column
+      else delete next[role]
+      return next
+    })
+
+  // Presets saved for another file may name columns this one lacks
+  const applyPreset = (preset: ImportPreset) => {
+    const next: ColumnMapping = {}
+    for (const { role } of ROLES) {
+      const column = preset.mapping[role]
+      if (column && inspection.columns.includes(column)) next[role] = column
+    }
+    setMapping(next)
+    setPresetName(preset.name)
+  }
+
+  const handleSavePreset = async () => {
+    setPresetError(null)
+    try {
+      const response = await fetch("/api/import-presets", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: presetName,
+          importer: importerId,
+          mapping,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to save preset")
+      setPresets((current) => [
+        ...current.filter((p) => p.name !== data.preset.name),
+        data.preset,
+      ])
+    } catch (err) {
+      setPresetError(
+        err instanceof Error ? err.message : "Failed to save preset"
+      )
+    }
+  }
+
+  const handleDeletePreset = async (preset: ImportPreset) => {
+    const response = await fetch(`/api/import-presets/${preset.id}`, {
+      method: "DELETE",
+    })
+    if (response.ok) {
+      setPresets((current) => current.filter((p) => p.id !== preset.id))
+    }
+  }
+
+  const sample = inspection.sample_rows[0] ?? []
+
+  return (
+    <div className="space-y-2 rounded-md border border-sidebar-border p-2 text-xs">
+      <p className="font-medium truncate" title={filename}>
+        Map columns: {filename}
+      </p>
+      <p className="text-muted-foreground">
+        {inspection.row_count} rows, {inspection.columns.length} columns
+      </p>
+      {presets.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {presets.map((preset) => (
+            <span key={preset.id} className="inline-flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => applyPreset(preset)}
+              >
+                {preset.name}
+              </Button>
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-destructive"
+                title={`Delete preset "${preset.name}"`}
+                onClick={() => handleDeletePreset(preset)}
+              >
+                <Trash2 className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      {ROLES.map(({ role, label }) => (
+        <label key={role} className="flex items-center gap-2">
+          <span className="w-24 shrink-0">{label}</span>
+          <select
+            value={mapping[role] ?? ""}
+            onChange={(e) => setRole(role, e.target.value)}
+            className="h-7 min-w-0 flex-1 rounded-md border border-input bg-background px-1"
+          >
+            <option value="">
+              {role === "text" ? "Choose a column" : "Not mapped"}
+            </option>
+            {inspection.columns.map((column, i) => (
+              <option key={`${i}:${column}`} value={column}>
+                {column}
+                {sample[i] ? ` (e.g. ${sample[i].slice(0, 30)})` : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+      <div className="flex gap-1">
+        <Input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          className="h-7 text-xs"
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          disabled={!presetName.trim() || !mapping.text}
+          onClick={handleSavePreset}
+        >
+          Save preset
+        </Button>
+      </div>
+      {presetError && <p className="text-destructive">{presetError}</p>}
+      {error && <p className="text-destructive">{error}</p>}
+      <div className="flex gap-1">
+        <Button
+          size="sm"
+          className="h-7 flex-1 text-xs"
+          disabled={!mapping.text}
+          onClick={() => onImport(mapping)}
+        >
+          Import
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
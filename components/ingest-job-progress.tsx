@@ -0,0 +1,163 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+export interface IngestJob {
+  id: string
+  status: "queued" | "parsing" | "chunking" | "embedding" | "done" | "failed"
+  filename: string
+  importer: string | null
+  messages_total: number
+  sources_total: number
+  sources_done: number
+  chunks_total: number
+  chunks_inserted: number
+  chunks_embedded: number
+  error: string | null
+  result?: {
+    date_parse_failures?: { count: number; samples: string[] }
+    streamed?: boolean
+    embedding?: { chunks: number; chunks_per_second: number }
+  }
+}
+
+interface IngestJobProgressProps {
+  job: IngestJob
+  onUpdate: (job: IngestJob) => void
+}
+
+const STATUS_LABELS: Record<IngestJob["status"], string> = {
+  queued: "Queued",
+  parsing: "Parsing",
+  chunking: "Chunking",
+  embedding: "Embedding",
+  done: "Done",
+  failed: "Failed",
+}
+
+const POLL_INTERVAL_MS = 2000
+
+export function isJobFinished(job: IngestJob) {
+  return job.status === "done" || job.status === "failed"
+}
+
+// Rough overall progress: parsing is quick, chunking and embedding dominate
+function jobProgress(job: IngestJob): number {
+  switch (job.status) {
+    case "queued":
+      return 0
+    case "parsing":
+      return 5
+    case "chunking":
+      return 10 + (30 * job.sources_done) / Math.max(job.sources_total, 1)
+    case "embedding":
+      return (
+        40 +
+        (60 * Math.min(job.chunks_embedded, job.chunks_total)) /
+          Math.max(job.chunks_total, 1)
+      )
+    default:
+      return 100
+  }
+}
+
+function jobDetail(job: IngestJob): string {
+  switch (job.status) {
+    case "queued":
+      return "Waiting for a worker..."
+    case "parsing":
+      return job.messages_total > 0
+        ? `Reading export... (${job.messages_total} messages so far)`
+        : "Reading export..."
+    case "chunking":
+      // Streamed uploads are embedded batch by batch while they are chunked
+      if (job.result?.streamed) {
+        return `${job.messages_total} messages, ${job.chunks_total} chunks stored, ${job.chunks_embedded} embedded`
+      }
+      return `${job.sources_done}/${job.sources_total} sources, ${job.messages_total} messages`
+    case "embedding":
+      return `${job.chunks_embedded}/${job.chunks_total} chunks embedded`
+    case "done": {
+      const failures = job.result?.date_parse_failures?.count ?? 0
+      const embedding = job.result?.embedding
+      return `${job.messages_total} messages in ${job.chunks_total} chunks (${job.chunks_inserted} new)${
+        failures > 0 ? `, ${failures} unparsed dates` : ""
+      }${
+        embedding?.chunks
+          ? `, embedded at ${embedding.chunks_per_second.toFixed(1)} chunks/s`
+          : ""
+      }`
+    }
+    case "failed":
+      return job.error || "Unknown error"
+  }
+}
+
+export function IngestJobProgress({ job, onUpdate }: IngestJobProgressProps) {
+  // Keep polling on job changes only, not on every parent re-render
+  const onUpdateRef = useRef(onUpdate)
+  useEffect(() => {
+    onUpdateRef.current = onUpdate
+  }, [onUpdate])
+
+  useEffect(() => {
+    if (isJobFinished(job)) return
+    const onUpdate = onUpdateRef.current
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/ingest-jobs/${job.id}`)
+        if (response.ok) {
+          const data = await response.json()
+          onUpdate(data.job)
+        } else {
+          // Try again on the next tick
+          onUpdate({ ...job })
+        }
+      } catch (error) {
+        console.error("Error polling ingest job:", error)
+        onUpdate({ ...job })
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearTimeout(timer)
+  }, [job])
+
+  const progress = jobProgress(job)
+
+  return (
+    <div className="rounded-md border border-sidebar-border p-2 space-y-1 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <span className="truncate font-medium" title={job.filename}>
+          {job.filename}
+        </span>
+        <span
+          className={
+            job.status === "failed" ? "text-destructive" : "text-muted-foreground"
+          }
+        >
+          {STATUS_LABELS[job.status]}
+        </span>
+      </div>
+      <div className="h-1.5 w-full rounded-full bg-muted overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all ${
+            job.status === "failed" ? "bg-destructive" : "bg-primary"
+          }`}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+      <p className="text-muted-foreground truncate" title={jobDetail(job)}>
+        {jobDetail(job)}
+      </p>
+      {job.status === "done" && job.result?.date_parse_failures?.count ? (
+        <p
+          className="text-muted-foreground truncate"
+          title={job.result.date_parse_failures.samples.join("\n")}
+        >
+          Unparsed: {job.result.date_parse_failures.samples.map((s) => `"${s}"`).join(", ")}
+        </p>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+"use client"
+
+import { Textarea } from "@/components/ui/textarea"
+
+export interface NoiseFilterSettings {
+  packs: string[]
+  // One regex per line, matched against the whole message
+  patterns: string
+}
+
+// Mirrors the built-in packs in lib/noise-filter
+const PACKS: Array<{ id: string; label: string }> = [
+  { id: "short", label: "Very short messages" },
+  { id: "reactions", label: "Emoji, +1 and reactions" },
+  { id: "system", label: "Joins, renames, media omitted" },
+  { id: "bots", label: "Bots and integrations" },
+  { id: "ack-en", label: "Acknowledgements (English)" },
+  { id: "ack-de", label: "Acknowledgements (German)" },
+  { id: "ack-es", label: "Acknowledgements (Spanish)" },
+  { id: "ack-fr", label: "Acknowledgements (French)" },
+  { id: "ack-pt", label: "Acknowledgements (Portuguese)" },
+]
+
+export const DEFAULT_NOISE_FILTER_SETTINGS: NoiseFilterSettings = {
+  packs: ["short", "reactions", "system", "ack-en"],
+  patterns: "",
+}
+
+interface NoiseFilterPanelProps {
+  value: NoiseFilterSettings
+  onChange: (value: NoiseFilterSettings) => void
+}
+
+/** Which messages the next upload leaves out of its chunks */
+export function NoiseFilterPanel({ value, onChange }: NoiseFilterPanelProps) {
+  const togglePack = (id: string, checked: boolean) =>
+    onChange({
+      ...value,
+      packs: checked
+        ? [...value.packs, id]
+        : value.packs.filter((p) => p !== id),
+    })
+
+  return (
+    <details className="rounded-md border border-sidebar-border p-2 text-xs">
+      <summary className="cursor-pointer">
+        Noise filter ({value.packs.length} rule packs)
+      </summary>
+      <div className="mt-2 space-y-1">
+        {PACKS.map(({ id, label }) => (
+          <label key={id} className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={value.packs.includes(id)}
+              onChange={(e) => togglePack(id, e.target.checked)}
+            />
+            {label}
+          </label>
+        ))}
+        <Textarea
+          value={value.patterns}
+          onChange={(e) => onChange({ ...value, patterns: e.target.value })}
+          placeholder={"Custom patterns, one regex per line\ne.g. (standup|retro) reminder.*"}
+          className="min-h-16 text-xs"
+        />
+        <p className="text-muted-foreground">
+          Counts per rule are shown in the import preview
+        </p>
+      </div>
+    </details>
+  )
+}
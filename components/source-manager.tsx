@@ -0,0 +1,263 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { ArrowLeft, Database, RefreshCw, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  IngestJobProgress,
+  isJobFinished,
+  type IngestJob,
+} from "@/components/ingest-job-progress"
+import { formatChatDate } from "@/lib/utils"
+
+interface ChatSourceSummary {
+  id: string
+  filename: string
+  label: string | null
+  importer: string | null
+  created_at: string
+  updated_at: string
+  can_reindex: boolean
+  redaction_counts: Record<string, number> | null
+  chunk_count: number
+  message_count: number
+  earliest: string | null
+  latest: string | null
+}
+
+interface SummaryCounts {
+  day: number
+  week: number
+  topic: number
+  updated_at: string | null
+}
+
+interface SummaryBuild {
+  status: "queued" | "running" | "done" | "failed"
+  written: number
+  pending: number
+  error: string | null
+}
+
+export function SourceManager() {
+  const [sources, setSources] = useState<ChatSourceSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busySourceId, setBusySourceId] = useState<string | null>(null)
+  // Re-index jobs keyed by source id
+  const [jobs, setJobs] = useState<Record<string, IngestJob>>({})
+  const [summaries, setSummaries] = useState<SummaryCounts | null>(null)
+  const [summaryStatus, setSummaryStatus] = useState<string | null>(null)
+
+  const loadSources = useCallback(async () => {
+    try {
+      const response = await fetch("/api/sources")
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to load sources")
+      setSources(data.sources ?? [])
+      setError(null)
+      const summaryResponse = await fetch("/api/summaries")
+      if (summaryResponse.ok) {
+        const summaryData = await summaryResponse.json()
+        setSummaries(summaryData.counts)
+        setSummaryStatus(summaryBuildStatus(summaryData.build))
+      }
+    } catch (err) {
+      console.error("Error loading sources:", err)
+      setError(err instanceof Error ? err.message : "Failed to load sources")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadSources()
+  }, [loadSources])
+
+  const handleDelete = async (source: ChatSourceSummary) => {
+    if (
+      !confirm(
+        `Delete "${source.label || source.filename}" and its ${source.chunk_count} chunks from the knowledge base?`
+      )
+    ) {
+      return
+    }
+
+    setBusySourceId(source.id)
+    try {
+      const response = await fetch(`/api/sources/${source.id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to delete source")
+      setSources((prev) => prev.filter((s) => s.id !== source.id))
+    } catch (err) {
+      console.error("Error deleting source:", err)
+      setError(err instanceof Error ? err.message : "Failed to delete source")
+    } finally {
+      setBusySourceId(null)
+    }
+  }
+
+  const handleReindex = async (source: ChatSourceSummary) => {
+    setBusySourceId(source.id)
+    try {
+      const response = await fetch(`/api/sources/${source.id}/reindex`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to re-index source")
+      setJobs((prev) => ({ ...prev, [source.id]: data.job }))
+    } catch (err) {
+      console.error("Error re-indexing source:", err)
+      setError(err instanceof Error ? err.message : "Failed to re-index source")
+    } finally {
+      setBusySourceId(null)
+    }
+  }
+
+  const handleRebuildSummaries = async () => {
+    try {
+      const response = await fetch("/api/summaries", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ timezone: Intl.DateTimeFormat().resolvedOptions().timeZone }),
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Failed to rebuild summaries")
+      setSummaryStatus(summaryBuildStatus(data.build))
+    } catch (err) {
+      console.error("Error rebuilding summaries:", err)
+      setError(err instanceof Error ? err.message : "Failed to rebuild summaries")
+    }
+  }
+
+  const handleJobUpdate = (sourceId: string) => (job: IngestJob) => {
+    setJobs((prev) => ({ ...prev, [sourceId]: job }))
+    if (isJobFinished(job)) loadSources()
+  }
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="mx-auto max-w-5xl space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Button asChild variant="ghost" size="sm">
+              <Link href="/chat">
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Back to chat
+              </Link>
+            </Button>
+            <h1 className="text-lg font-semibold text-foreground">Knowledge base</h1>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadSources}>
+            <RefreshCw className="mr-2 h-3 w-3" />
+            Refresh
+          </Button>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {summaries && (
+          <div className="flex items-center justify-between text-sm text-muted-foreground">
+            <span>
+              Summaries: {summaries.day} days, {summaries.week} weeks, {summaries.topic} threads
+              {summaries.updated_at && ` (updated ${formatChatDate(summaries.updated_at)})`}
+              {summaryStatus && ` - ${summaryStatus}`}
+            </span>
+            <Button variant="outline" size="sm" onClick={handleRebuildSummaries}>
+              Rebuild summaries
+            </Button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-muted-foreground">Loading...</div>
+        ) : sources.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            <Database className="mx-auto h-8 w-8 mb-2 opacity-50" />
+            <p className="text-sm">Nothing imported yet</p>
+            <p className="text-xs">Upload a chat export from the sidebar to get started</p>
+          </div>
+        ) : (
+          sources.map((source) => {
+            const job = jobs[source.id]
+            const isBusy = busySourceId === source.id || (job !== undefined && !isJobFinished(job))
+            return (
+              <Card key={source.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="min-w-0">
+                      <CardTitle className="truncate" title={source.filename}>
+                        {source.label || source.filename}
+                      </CardTitle>
+                      <CardDescription className="truncate">
+                        {source.label ? `${source.filename} · ` : ""}
+                        {source.importer ?? "unknown format"}
+                      </CardDescription>
+                    </div>
+                    <div className="flex shrink-0 gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={isBusy || !source.can_reindex}
+                        title={
+                          source.can_reindex
+                            ? "Re-run chunking and embedding"
+                            : "Original upload not stored; upload the file again"
+                        }
+                        onClick={() => handleReindex(source)}
+                      >
+                        <RefreshCw className="mr-2 h-3 w-3" />
+                        Re-index
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="text-destructive"
+                        disabled={isBusy}
+                        onClick={() => handleDelete(source)}
+                      >
+                        <Trash2 className="mr-2 h-3 w-3" />
+                        Delete
+                      </Button>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground sm:grid-cols-4">
+                    <span>{source.chunk_count} chunks</span>
+                    <span>{source.message_count} messages</span>
+                    <span>
+                      {formatChatDate(source.earliest)} – {formatChatDate(source.latest)}
+                    </span>
+                    <span>Uploaded {formatChatDate(source.updated_at)}</span>
+                  </div>
+                  {redactionSummary(source) && (
+                    <p className="text-xs text-muted-foreground">Redacted: {redactionSummary(source)}</p>
+                  )}
+                  {job && <IngestJobProgress job={job} onUpdate={handleJobUpdate(source.id)} />}
+                </CardContent>
+              </Card>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Builds run in passes across requests; refreshing the page resumes them
+function summaryBuildStatus(build: SummaryBuild | null): string | null {
+  if (!build) return null
+  if (build.status === "failed") return `last rebuild failed: ${build.error}`
+  if (build.status === "done") return null
+  return build.pending > 0
+    ? `rebuilding: ${build.written} written, ${build.pending} to go; refresh to follow`
+    : "rebuilding in the background; refresh to follow"
+}
+
+function redactionSummary(source: ChatSourceSummary): string {
+  return Object.entries(source.redaction_counts ?? {})
+    .filter(([, n]) => n > 0)
+    .map(([id, n]) => `${id.replace(/_/g, " ")} ${n}`)
+    .join(", ")
+}
@@ -0,0 +1,220 @@
+import { createClient } from "@/lib/supabase/server";
+import {
+  chunkHash,
+  chunkSourceMessages,
+  type ChunkMessageRef,
+} from "@/lib/rag";
+import {
+  DEFAULT_REDACTION_CONFIG,
+  redactMessages,
+  type RedactionConfig,
+} from "@/lib/redaction";
+import { recordRedactionCounts, type ChatSource } from "@/lib/sources";
+
+export interface ChunkWithMessages {
+  chunk_id: string;
+  content: string;
+  participants: string[];
+  start_time: string | null;
+  end_time: string | null;
+  original_filename: string | null;
+  metadata: Record<string, unknown> | null;
+  // Empty for chunks ingested before provenance was recorded
+  messages: Array<ChunkMessageRef & { text: string }>;
+}
+
+/** A chunk and the original messages it was built from */
+export async function getChunkWithMessages(
+  chunkId: string
+): Promise<ChunkWithMessages | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("get_chat_chunk", {
+    target_chunk_id: chunkId,
+  });
+  if (error) throw error;
+  const chunk = (Array.isArray(data) ? data[0] : data) as
+    Omit<ChunkWithMessages, "messages"> | undefined;
+  if (!chunk) return null;
+  return { ...chunk, messages: chunkSourceMessages(chunk) };
+}
+
+export type MessageEdit = {
+  message_id: string;
+  // Corrected text, or null to delete the message
+  content: string | null;
+};
+
+/**
+ * Apply deletes and corrections to individual messages of a source. Only the
+ * chunks holding those messages are touched: their content is rebuilt from
+ * the remaining messages and their embedding cleared for re-embedding, and a
+ * chunk left without messages is deleted. So is a chunk whose rebuilt
+ * content hashes the same as another chunk of the user's, e.g. an overlap
+ * window after a deletion: chunk hashes are unique per user, and the other
+ * chunk already holds the same text. Corrections go through the source's
+ * redaction settings like the original upload did. Mentions and links in the
+ * chunk metadata are left as they were.
+ */
+export async function editSourceMessages(
+  source: ChatSource,
+  edits: MessageEdit[]
+): Promise<{
+  chunksUpdated: number;
+  chunksDeleted: number;
+  missingMessageIds: string[];
+}> {
+  const supabase = await createClient();
+  const changes = new Map(edits.map((e) => [e.message_id, e.content]));
+  const { data: chunks, error } = await supabase.rpc("find_message_chunks", {
+    target_source_id: source.id,
+    target_message_ids: Array.from(changes.keys()),
+  });
+  if (error) throw error;
+
+  const redaction = await sourceRedactionConfig(source);
+  const found = new Set<string>();
+  let chunksUpdated = 0;
+  let chunksDeleted = 0;
+
+  for (const chunk of chunks ?? []) {
+    let content = "";
+    const refs: ChunkMessageRef[] = [];
+    const removedAuthors = new Set<string>();
+    for (const m of chunkSourceMessages(chunk)) {
+      let text = m.text;
+      if (m.message_id && changes.has(m.message_id)) {
+        found.add(m.message_id);
+        // The corrected text replaces the first part of a split message
+        const change = m.part ? null : changes.get(m.message_id)!;
+        const corrected =
+          change === null
+            ? null
+            : redactMessages(
+                [
+                  {
+                    content: change,
+                    participant: m.participant,
+                    timestamp: m.timestamp,
+                  },
+                ],
+                redaction
+              );
+        if (corrected && Object.keys(corrected.counts).length > 0) {
+          await recordRedactionCounts(source.id, corrected.counts);
+        }
+        // "drop" redaction leaves nothing, same as at upload time
+        if (!corrected || corrected.messages.length === 0) {
+          removedAuthors.add(m.participant);
+          continue;
+        }
+        text = corrected.messages[0].content;
+      }
+      const line = `${m.participant}: ${text}`;
+      const start = content ? content.length + 1 : 0;
+      content += (content ? "\n" : "") + line;
+      refs.push({
+        message_id: m.message_id,
+        participant: m.participant,
+        timestamp: m.timestamp,
+        start,
+        end: start + line.length,
+        ...(m.part !== undefined ? { part: m.part } : {}),
+        ...(m.overlap ? { overlap: true } : {}),
+      });
+    }
+
+    if (refs.length === 0) {
+      const { error: deleteError } = await supabase
+        .from("chat_chunks")
+        .delete()
+        .eq("id", chunk.id);
+      if (deleteError) throw deleteError;
+      chunksDeleted += 1;
+      continue;
+    }
+
+    // Recipients stay; authors go once none of their messages remain
+    const authors = new Set(refs.map((r) => r.participant));
+    const participants = (chunk.participants as string[]).filter(
+      (p) => !removedAuthors.has(p) || authors.has(p)
+    );
+    const times = refs
+      .map((r) => r.timestamp)
+      .filter((t): t is string => !!t)
+      .sort((a, b) => Date.parse(a) - Date.parse(b));
+    const start = times[0] ?? chunk.start_time;
+    const end = times[times.length - 1] ?? chunk.end_time;
+    const ids = refs
+      .map((r) => r.message_id)
+      .filter((id): id is string => !!id);
+
+    const hash = chunkHash({ participants, start, end, content });
+    const { data: twin, error: twinError } = await supabase
+      .from("chat_chunks")
+      .select("id")
+      .eq("user_id", source.user_id)
+      .eq("chunk_hash", hash)
+      .neq("id", chunk.id)
+      .maybeSingle();
+    if (twinError) throw twinError;
+    if (twin) {
+      const { error: deleteError } = await supabase
+        .from("chat_chunks")
+        .delete()
+        .eq("id", chunk.id);
+      if (deleteError) throw deleteError;
+      chunksDeleted += 1;
+      continue;
+    }
+
+    const { error: updateError } = await supabase
+      .from("chat_chunks")
+      .update({
+        content,
+        participants,
+        start_time: start,
+        end_time: end,
+        message_count: refs.filter((r) => !r.overlap && !r.part).length,
+        chunk_hash: hash,
+        metadata: {
+          ...chunk.metadata,
+          source_messages: refs,
+          message_ids: ids,
+        },
+        embedding: null,
+        embedding_model: null,
+        embedding_dimensions: null,
+      })
+      .eq("id", chunk.id);
+    if (updateError) throw updateError;
+    // Vectors of other versions (see lib/embedding-versions) are stale too
+    const { error: versionsError } = await supabase
+      .from("chunk_embeddings")
+      .delete()
+      .eq("chunk_id", chunk.id);
+    if (versionsError) throw versionsError;
+    chunksUpdated += 1;
+  }
+
+  return {
+    chunksUpdated,
+    chunksDeleted,
+    missingMessageIds: Array.from(changes.keys()).filter(
+      (id) => !found.has(id)
+    ),
+  };
+}
+
+// The redaction the source's last upload ran with
+async function sourceRedactionConfig(
+  source: ChatSource
+): Promise<RedactionConfig> {
+  if (!source.ingest_job_id) return DEFAULT_REDACTION_CONFIG;
+  const supabase = await createClient();
+  const { data } = await supabase
+    .from("ingest_jobs")
+    .select("options")
+    .eq("id", source.ingest_job_id)
+    .maybeSingle();
+  return data?.options?.redaction ?? DEFAULT_REDACTION_CONFIG;
+}
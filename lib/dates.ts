@@ -0,0 +1,379 @@
+export interface DateParseOptions {
+  // IANA zone for timestamps without an explicit offset; defaults to UTC
+  timeZone?: string;
+  // Read ambiguous numeric dates like 03/04/2020 as day-first (default) or
+  // month-first. Unambiguous values (13/04/2020) are read either way.
+  dayFirst?: boolean;
+}
+
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  millisecond: number;
+}
+
+// English, German and French month names and their usual abbreviations,
+// accent-free and lowercase (see monthIndex)
+const MONTHS: Record<string, number> = {};
+[
+  ["january", "jan", "januar", "janvier", "janv", "janner"],
+  ["february", "feb", "februar", "fevrier", "fevr", "fev"],
+  ["march", "mar", "marz", "maerz", "mars", "mrz"],
+  ["april", "apr", "avril", "avr"],
+  ["may", "mai"],
+  ["june", "jun", "juni", "juin"],
+  ["july", "jul", "juli", "juillet", "juil"],
+  ["august", "aug", "aout"],
+  ["september", "sep", "sept"],
+  ["october", "oct", "oktober", "okt", "octobre"],
+  ["november", "nov", "novembre"],
+  ["december", "dec", "dezember", "dez", "decembre"],
+].forEach((names, index) => {
+  for (const name of names) MONTHS[name] = index + 1;
+});
+
+// Leading weekday words to drop; "mar" (French mardi) is left out because it
+// is also March
+const WEEKDAYS = new Set(
+  [
+    "monday tuesday wednesday thursday friday saturday sunday",
+    "mon tue tues wed thu thur thurs fri sat sun",
+    "montag dienstag mittwoch donnerstag freitag samstag sonntag",
+    "mo di mi do fr sa so",
+    "lundi mardi mercredi jeudi vendredi samedi dimanche",
+    "lun mer jeu ven sam dim",
+  ]
+    .join(" ")
+    .split(" ")
+);
+
+function stripWeekday(text: string): string {
+  const match = text.match(/^([^\d\s,.]+)\.?,?\s+/);
+  return match && WEEKDAYS.has(match[1].toLowerCase())
+    ? text.slice(match[0].length)
+    : text;
+}
+
+// Fixed offsets (minutes) for abbreviations that show up in exports
+const ZONE_ABBREVIATIONS: Record<string, number> = {
+  Z: 0,
+  UTC: 0,
+  GMT: 0,
+  WET: 0,
+  WEST: 60,
+  BST: 60,
+  CET: 60,
+  MEZ: 60,
+  CEST: 120,
+  MESZ: 120,
+  EET: 120,
+  EEST: 180,
+  EST: -300,
+  EDT: -240,
+  CST: -360,
+  CDT: -300,
+  MST: -420,
+  MDT: -360,
+  PST: -480,
+  PDT: -420,
+  JST: 540,
+  AEST: 600,
+  AEDT: 660,
+};
+
+const TIME =
+  /^(?:T|,?\s*(?:at|um|à|a|-)?\s*)(\d{1,2})[:h.](\d{2})(?:[:.](\d{2})(?:[.,](\d{1,6}))?)?\s*(?:([ap])\.?\s?m\.?)?\s*(?:uhr)?/i;
+
+function monthIndex(name: string): number | undefined {
+  const key = name
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f.]/g, "");
+  return MONTHS[key];
+}
+
+function fullYear(year: string): number {
+  const n = parseInt(year, 10);
+  if (year.length > 2) return n;
+  return n < 70 ? 2000 + n : 1900 + n;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function validParts(p: DateParts): boolean {
+  return (
+    p.year >= 1970 &&
+    p.year <= 2200 &&
+    p.month >= 1 &&
+    p.month <= 12 &&
+    p.day >= 1 &&
+    p.day <= daysInMonth(p.year, p.month) &&
+    p.hour < 24 &&
+    p.minute < 60 &&
+    p.second < 61
+  );
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Offset of an IANA zone from UTC, in minutes, at the given instant */
+function zoneOffsetMinutes(timeZone: string, utcMillis: number): number {
+  let formatter = offsetFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    offsetFormatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(new Date(utcMillis))) {
+    if (part.type !== "literal") parts[part.type] = parseInt(part.value, 10);
+  }
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return Math.round((asUtc - Math.floor(utcMillis / 1000) * 1000) / 60000);
+}
+
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/** Calendar day ("2024-03-01") of an instant in an IANA zone */
+export function dayKey(utcMillis: number, timeZone: string): string {
+  let formatter = dayFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+    });
+    dayFormatters.set(timeZone, formatter);
+  }
+  return formatter.format(new Date(utcMillis));
+}
+
+/** ISO week ("2024-W09") of a calendar day, and the Monday it starts on */
+export function isoWeekOf(day: string): { key: string; monday: string } {
+  const date = new Date(`${day}T00:00:00Z`);
+  const weekday = (date.getUTCDay() + 6) % 7;
+  const monday = new Date(date.getTime() - weekday * 86_400_000);
+  // The week belongs to the year its Thursday falls in
+  const thursday = new Date(monday.getTime() + 3 * 86_400_000);
+  const year = thursday.getUTCFullYear();
+  const week =
+    Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (7 * 86_400_000)) +
+    1;
+  return {
+    key: `${year}-W${String(week).padStart(2, "0")}`,
+    monday: monday.toISOString().slice(0, 10),
+  };
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Interpret wall-clock parts in a zone (fixed offset or IANA name) as UTC millis */
+function toUtcMillis(parts: DateParts, zone: number | string): number {
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    parts.millisecond
+  );
+  if (typeof zone === "number") return wallClock - zone * 60000;
+
+  // Two passes settle on the right side of a DST transition
+  let utc = wallClock - zoneOffsetMinutes(zone, wallClock) * 60000;
+  utc = wallClock - zoneOffsetMinutes(zone, utc) * 60000;
+  return utc;
+}
+
+/** Split a trailing zone designator off the text: Z, +02:00, GMT+5, CEST, Europe/Berlin */
+function extractZone(text: string): {
+  rest: string;
+  zone: number | string | null;
+} {
+  const rest = text.replace(/\s*\([^)]*\)$/, "").trim();
+
+  const iana = rest.match(/\s+([A-Za-z]+\/[A-Za-z_/+-]+)$/);
+  if (iana && isValidTimeZone(iana[1])) {
+    return { rest: rest.slice(0, iana.index).trim(), zone: iana[1] };
+  }
+
+  const offset = rest.match(
+    /\s*(?:(UTC|GMT)\s*)?([+-])(\d{1,2})(?::?(\d{2}))?$/i
+  );
+  // Only treat a bare "+hh" / "-hhmm" as an offset when it follows a time,
+  // so "2020-01-05" is not read as "2020-01" with a -05 offset
+  if (
+    offset &&
+    (offset[1] ||
+      /\d[:h.]\d{2}\S*(?:\s*[ap]\.?\s?m\.?)?$/i.test(
+        rest.slice(0, offset.index)
+      ))
+  ) {
+    const minutes =
+      parseInt(offset[3], 10) * 60 + parseInt(offset[4] ?? "0", 10);
+    return {
+      rest: rest.slice(0, offset.index).trim(),
+      zone: offset[2] === "-" ? -minutes : minutes,
+    };
+  }
+
+  const abbreviation = rest.match(/(?:\s+|(?<=\d))([A-Z]{1,4})$/);
+  if (abbreviation && abbreviation[1] in ZONE_ABBREVIATIONS) {
+    return {
+      rest: rest.slice(0, abbreviation.index).trim(),
+      zone: ZONE_ABBREVIATIONS[abbreviation[1]],
+    };
+  }
+
+  return { rest, zone: null };
+}
+
+/** Read "<date><time?>" into parts; the time is optional, trailing text is not */
+function parseDateTime(text: string, dayFirst: boolean): DateParts | null {
+  let year: number;
+  let month: number | undefined;
+  let day: number;
+  let match: RegExpMatchArray | null;
+  let rest: string;
+
+  if ((match = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/))) {
+    // 2013-09-12, 2013/09/12
+    year = parseInt(match[1], 10);
+    month = parseInt(match[2], 10);
+    day = parseInt(match[3], 10);
+  } else if ((match = text.match(/^(\d{1,2})([./-])(\d{1,2})\2(\d{2,4})\b/))) {
+    // 12.09.2013 is always day-first; 12/09/2013 depends on the values
+    const a = parseInt(match[1], 10);
+    const b = parseInt(match[3], 10);
+    const readDayFirst =
+      match[2] === "." || a > 12 ? true : b > 12 ? false : dayFirst;
+    day = readDayFirst ? a : b;
+    month = readDayFirst ? b : a;
+    year = fullYear(match[4]);
+  } else if (
+    (match = text.match(
+      /^(\d{1,2})(?:\.|er|st|nd|rd|th)?\s+([^\d\s,]+)\s+(\d{4})/i
+    ))
+  ) {
+    // 12 September 2013, 12. Sept. 2013, 1er janvier 2020
+    day = parseInt(match[1], 10);
+    month = monthIndex(match[2]);
+    year = parseInt(match[3], 10);
+  } else if (
+    (match = text.match(
+      /^([^\d\s,]+)\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})/i
+    ))
+  ) {
+    // September 12, 2013
+    month = monthIndex(match[1]);
+    day = parseInt(match[2], 10);
+    year = parseInt(match[3], 10);
+  } else {
+    return null;
+  }
+  if (month === undefined) return null;
+  rest = text.slice(match[0].length);
+
+  const parts: DateParts = {
+    year,
+    month,
+    day,
+    hour: 0,
+    minute: 0,
+    second: 0,
+    millisecond: 0,
+  };
+
+  const time = rest.match(TIME);
+  if (time) {
+    parts.hour = parseInt(time[1], 10);
+    parts.minute = parseInt(time[2], 10);
+    parts.second = time[3] ? parseInt(time[3], 10) : 0;
+    parts.millisecond = time[4]
+      ? Math.round(parseInt(time[4], 10) / 10 ** (time[4].length - 3))
+      : 0;
+    if (time[5]) {
+      if (parts.hour < 1 || parts.hour > 12) return null;
+      const pm = time[5].toLowerCase() === "p";
+      if (pm && parts.hour !== 12) parts.hour += 12;
+      if (!pm && parts.hour === 12) parts.hour = 0;
+    }
+    rest = rest.slice(time[0].length);
+  }
+
+  if (rest.replace(/[\s,.]/g, "")) return null;
+  return validParts(parts) ? parts : null;
+}
+
+/**
+ * Parse a timestamp from a chat export into an ISO string (UTC), or null when
+ * it cannot be read. Handles:
+ * - Google Chat: "Thursday, September 12, 2013 at 3:50:11 PM UTC"
+ * - ISO 8601 with or without offset, "2013-09-12 15:50"
+ * - German/French month names: "12. September 2013 um 15:50", "12 sept. 2013 à 15h50"
+ * - Numeric dates: "12.09.2013 15:50", "12/09/2013, 15:50", "9/12/13 3:50 PM"
+ * - Epoch seconds/milliseconds and Slack ts ("1378993811.000200")
+ * - Zone suffixes: Z, +02:00, GMT+2, CEST, Europe/Berlin
+ * Anything without an explicit zone is read in options.timeZone (UTC by
+ * default), never in the server's local zone.
+ */
+export function parseChatDate(
+  value: string | number | null | undefined,
+  options: DateParseOptions = {}
+): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  if (!text) return null;
+
+  // Epoch values: 10 digits are seconds (Slack ts adds a fraction), 13 are ms
+  if (/^\d+(?:\.\d+)?$/.test(text)) {
+    const n = parseFloat(text);
+    const [whole] = text.split(".");
+    const millis =
+      whole.length >= 12 ? n : whole.length >= 9 ? n * 1000 : Number.NaN;
+    return Number.isFinite(millis)
+      ? new Date(Math.round(millis)).toISOString()
+      : null;
+  }
+
+  const { rest, zone } = extractZone(stripWeekday(text.replace(/\s+/g, " ")));
+  const parts = parseDateTime(rest, options.dayFirst ?? true);
+  if (!parts) return null;
+
+  const timeZone =
+    options.timeZone && isValidTimeZone(options.timeZone)
+      ? options.timeZone
+      : "UTC";
+  const millis = toUtcMillis(parts, zone ?? timeZone);
+  return Number.isFinite(millis) ? new Date(millis).toISOString() : null;
+}
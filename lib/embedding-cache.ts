@@ -0,0 +1,209 @@
+import { createHash } from "crypto";
+import { createServiceClient } from "@/lib/supabase/service";
+
+/** Counters of this server process since it started */
+export interface EmbeddingCacheStats {
+  lookups: number;
+  memory_hits: number;
+  stored_hits: number;
+  misses: number;
+  hit_rate: number;
+  memory_entries: number;
+}
+
+// Recent query vectors kept in process memory (about 12 KB each)
+const MEMORY_ENTRIES = 500;
+// Stored entries beyond this many, or unused for this long, are evicted
+const MAX_ENTRIES = Number(process.env.EMBEDDING_CACHE_MAX_ENTRIES) || 200_000;
+const MAX_AGE_DAYS = Number(process.env.EMBEDDING_CACHE_MAX_AGE_DAYS) || 90;
+// Eviction runs after this many new entries have been stored
+const EVICT_EVERY_WRITES = 1000;
+
+// Map order is use order: the first key is the least recently used
+const memory = new Map<string, number[]>();
+const counters = { lookups: 0, memory_hits: 0, stored_hits: 0, misses: 0 };
+let writesSinceEviction = 0;
+let storageWarned = false;
+
+export function isEmbeddingCacheEnabled(): boolean {
+  return process.env.EMBEDDING_CACHE !== "off";
+}
+
+/**
+ * Texts that differ only in Unicode form, line endings or runs of spaces
+ * share a cache entry. Case and line breaks are kept: both change the
+ * embedding.
+ */
+export function normalizeForCache(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[^\S\n]+/g, " ")
+    .replace(/ ?\n ?/g, "\n")
+    .trim();
+}
+
+function textHash(text: string): string {
+  return createHash("sha256")
+    .update(normalizeForCache(text), "utf8")
+    .digest("hex");
+}
+
+function remember(key: string, vector: number[]) {
+  memory.delete(key);
+  memory.set(key, vector);
+  if (memory.size > MEMORY_ENTRIES) {
+    memory.delete(memory.keys().next().value!);
+  }
+}
+
+// The cache only saves cost: when it cannot be reached, embed as if empty
+function storageFailed(error: unknown) {
+  if (!storageWarned) {
+    console.warn("[v0] Embedding cache unavailable:", error);
+    storageWarned = true;
+  }
+}
+
+async function lookupStored(
+  namespace: string,
+  hashes: string[]
+): Promise<Map<string, number[]>> {
+  const found = new Map<string, number[]>();
+  try {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc("get_cached_embeddings", {
+      target_version: namespace,
+      target_hashes: hashes,
+    });
+    if (error) throw error;
+    for (const row of (data ?? []) as Array<{
+      text_hash: string;
+      embedding: string;
+    }>) {
+      found.set(row.text_hash, JSON.parse(row.embedding));
+    }
+  } catch (error) {
+    storageFailed(error);
+  }
+  return found;
+}
+
+async function store(namespace: string, hashes: string[], vectors: number[][]) {
+  try {
+    const supabase = createServiceClient();
+    const { error } = await supabase.rpc("put_cached_embeddings", {
+      target_version: namespace,
+      target_hashes: hashes,
+      embeddings: vectors.map((v) => JSON.stringify(v)),
+    });
+    if (error) throw error;
+
+    writesSinceEviction += hashes.length;
+    if (writesSinceEviction >= EVICT_EVERY_WRITES) {
+      writesSinceEviction = 0;
+      const { data: evicted, error: evictError } = await supabase.rpc(
+        "evict_embedding_cache",
+        { max_entries: MAX_ENTRIES, max_age_days: MAX_AGE_DAYS }
+      );
+      if (evictError) throw evictError;
+      if (evicted) console.log(`[v0] Evicted ${evicted} cached embeddings`);
+    }
+  } catch (error) {
+    storageFailed(error);
+  }
+}
+
+/**
+ * Vectors for `texts` in order, looked up by (namespace, normalized text hash)
+ * first in memory, then in embedding_cache. Only the misses go to `embed`,
+ * each distinct text once, and are stored for next time. With
+ * `remember`, results also stay in process memory, so repeated queries
+ * skip the database as well.
+ */
+export async function cachedEmbeddings(
+  namespace: string,
+  texts: string[],
+  embed: (texts: string[]) => Promise<number[][]>,
+  options: { remember?: boolean } = {}
+): Promise<number[][]> {
+  const hashes = texts.map(textHash);
+  const results: Array<number[] | undefined> = new Array(texts.length);
+  counters.lookups += texts.length;
+
+  hashes.forEach((hash, i) => {
+    const key = `${namespace}|${hash}`;
+    const cached = memory.get(key);
+    if (cached) {
+      results[i] = cached;
+      remember(key, cached);
+      counters.memory_hits += 1;
+    }
+  });
+
+  const unresolved = () =>
+    Array.from(new Set(hashes.filter((_, i) => results[i] === undefined)));
+  const fill = (found: Map<string, number[]>) => {
+    let filled = 0;
+    hashes.forEach((hash, i) => {
+      const vector = found.get(hash);
+      if (vector && results[i] === undefined) {
+        results[i] = vector;
+        filled += 1;
+        if (options.remember) remember(`${namespace}|${hash}`, vector);
+      }
+    });
+    return filled;
+  };
+
+  const pending = unresolved();
+  if (pending.length > 0) {
+    counters.stored_hits += fill(await lookupStored(namespace, pending));
+  }
+
+  const missing = unresolved();
+  if (missing.length > 0) {
+    const firstText = new Map<string, string>();
+    hashes.forEach((hash, i) => {
+      if (!firstText.has(hash)) firstText.set(hash, texts[i]);
+    });
+    const vectors = await embed(missing.map((hash) => firstText.get(hash)!));
+    counters.misses += fill(new Map(missing.map((h, i) => [h, vectors[i]])));
+    await store(namespace, missing, vectors);
+  }
+
+  return results as number[][];
+}
+
+export function getEmbeddingCacheStats(): EmbeddingCacheStats {
+  const hits = counters.memory_hits + counters.stored_hits;
+  return {
+    ...counters,
+    hit_rate: counters.lookups > 0 ? hits / counters.lookups : 0,
+    memory_entries: memory.size,
+  };
+}
+
+/** Size and lifetime hit count of the stored cache, across all processes */
+export async function getStoredEmbeddingCacheSummary(): Promise<{
+  entries: number;
+  total_hits: number;
+  oldest_used_at: string | null;
+} | null> {
+  try {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc("embedding_cache_summary");
+    if (error) throw error;
+    const row = Array.isArray(data) ? data[0] : data;
+    return row
+      ? {
+          entries: Number(row.entries ?? 0),
+          total_hits: Number(row.total_hits ?? 0),
+          oldest_used_at: row.oldest_used_at ?? null,
+        }
+      : null;
+  } catch (error) {
+    console.error("Error fetching embedding cache summary:", error);
+    return null;
+  }
+}
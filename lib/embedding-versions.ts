@@ -0,0 +1,298 @@
+import { createClient } from "@/lib/supabase/server";
+import {
+  embeddingRecord,
+  embeddingVersion,
+  generateEmbeddingsBatch,
+  getEmbeddingProvider,
+  providerForVersion,
+  type EmbeddingProvider,
+  type EmbeddingVersionConfig,
+} from "@/lib/embeddings";
+
+/** workspace_settings.embedding; nothing set means the env provider */
+export interface EmbeddingSettings {
+  active?: EmbeddingVersionConfig;
+  // The version replaced by the last cut-over, kept for rollback
+  previous?: EmbeddingVersionConfig;
+  // Being backfilled into chunk_embeddings
+  target?: EmbeddingVersionConfig;
+  activated_at?: string;
+}
+
+export interface EmbeddingVersionStatus {
+  active: { version: string; config: EmbeddingVersionConfig };
+  previous: { version: string; config: EmbeddingVersionConfig } | null;
+  target: {
+    version: string;
+    config: EmbeddingVersionConfig;
+    embedded: number;
+    total: number;
+  } | null;
+  activated_at: string | null;
+}
+
+// Chunks re-embedded per backfill round
+const BACKFILL_PAGE = 500;
+
+async function getEmbeddingSettings(
+  userId: string
+): Promise<EmbeddingSettings> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("workspace_settings")
+    .select("embedding")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.embedding as EmbeddingSettings | null) ?? {};
+}
+
+async function saveEmbeddingSettings(
+  userId: string,
+  embedding: EmbeddingSettings
+) {
+  const supabase = await createClient();
+  const { error } = await supabase.from("workspace_settings").upsert(
+    {
+      user_id: userId,
+      embedding,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id" }
+  );
+  if (error) throw error;
+}
+
+function activeProvider(settings: EmbeddingSettings): EmbeddingProvider {
+  return settings.active
+    ? providerForVersion(settings.active)
+    : getEmbeddingProvider();
+}
+
+/**
+ * Provider of the workspace's serving vectors: queries must be embedded with
+ * it, and so must chunks added before the next cut-over.
+ */
+export async function getActiveEmbeddingProvider(
+  userId: string
+): Promise<EmbeddingProvider> {
+  return activeProvider(await getEmbeddingSettings(userId));
+}
+
+export async function getEmbeddingVersionStatus(
+  userId: string
+): Promise<EmbeddingVersionStatus> {
+  const settings = await getEmbeddingSettings(userId);
+  const active = activeProvider(settings);
+  const describe = (config: EmbeddingVersionConfig) => ({
+    version: embeddingVersion(providerForVersion(config)),
+    config,
+  });
+
+  let target: EmbeddingVersionStatus["target"] = null;
+  if (settings.target) {
+    const { version, config } = describe(settings.target);
+    const supabase = await createClient();
+    const [embedded, total] = await Promise.all([
+      supabase
+        .from("chunk_embeddings")
+        .select("chunk_id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .eq("version", version),
+      supabase
+        .from("chat_chunks")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId),
+    ]);
+    if (embedded.error) throw embedded.error;
+    if (total.error) throw total.error;
+    target = {
+      version,
+      config,
+      embedded: embedded.count ?? 0,
+      total: total.count ?? 0,
+    };
+  }
+
+  return {
+    active: { version: embeddingVersion(active), config: active.config },
+    previous: settings.previous ? describe(settings.previous) : null,
+    target,
+    activated_at: settings.activated_at ?? null,
+  };
+}
+
+/**
+ * Pick the version to re-embed into. Search keeps serving the active version
+ * until cutOverEmbeddingVersion; re-targeting drops nothing already embedded.
+ */
+export async function startReembedding(
+  userId: string,
+  config: EmbeddingVersionConfig
+): Promise<EmbeddingVersionStatus> {
+  const target = providerForVersion(config);
+  const settings = await getEmbeddingSettings(userId);
+  if (embeddingVersion(target) === embeddingVersion(activeProvider(settings))) {
+    throw new Error(
+      `${embeddingVersion(target)} is already the active version`
+    );
+  }
+  await saveEmbeddingSettings(userId, { ...settings, target: target.config });
+  return getEmbeddingVersionStatus(userId);
+}
+
+/**
+ * Embed every chunk that has no vector in the target version yet. Resumable
+ * like embedMissingChunks: each round picks up whatever is still missing,
+ * including chunks ingested or edited since the backfill started.
+ */
+export async function backfillEmbeddingVersion(
+  userId: string,
+  onProgress?: (embedded: number) => Promise<void> | void
+): Promise<number> {
+  const settings = await getEmbeddingSettings(userId);
+  if (!settings.target) return 0;
+  const target = providerForVersion(settings.target);
+  const version = embeddingVersion(target);
+  const record = embeddingRecord(target);
+  const supabase = await createClient();
+
+  let embedded = 0;
+  for (;;) {
+    const { data: page, error } = await supabase.rpc(
+      "chunks_missing_embedding_version",
+      { target_version: version, max_rows: BACKFILL_PAGE }
+    );
+    if (error) throw error;
+    const rows = (page ?? []) as Array<{ chunk_id: string; content: string }>;
+    if (rows.length === 0) return embedded;
+
+    const vectors = await generateEmbeddingsBatch(
+      rows.map((r) => r.content),
+      target
+    );
+    const { error: insertError } = await supabase
+      .from("chunk_embeddings")
+      .upsert(
+        rows.map((r, i) => ({
+          chunk_id: r.chunk_id,
+          user_id: userId,
+          version,
+          embedding: vectors[i],
+          ...record,
+        })),
+        { onConflict: "chunk_id,version" }
+      );
+    if (insertError) throw insertError;
+    embedded += rows.length;
+    await onProgress?.(embedded);
+  }
+}
+
+async function activate(
+  version: string,
+  settings: EmbeddingSettings
+): Promise<{ switched: number; missing: number }> {
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("activate_embedding_version", {
+    target_version: version,
+    new_settings: settings,
+  });
+  if (error) throw error;
+  const row = (Array.isArray(data) ? data[0] : data) as {
+    switched: number;
+    missing: number;
+  } | null;
+  return {
+    switched: Number(row?.switched ?? 0),
+    missing: Number(row?.missing ?? 0),
+  };
+}
+
+/**
+ * Make the backfilled target the workspace's serving version in one
+ * transaction; the old version is kept for rollback. Nothing is embedded
+ * here, so callers check the backfill is complete first (see
+ * getEmbeddingVersionStatus). Chunks that arrive in between and the
+ * workspace's summaries are left for embedMissingChunks and
+ * embedMissingSummaries.
+ */
+export async function cutOverEmbeddingVersion(userId: string) {
+  const settings = await getEmbeddingSettings(userId);
+  if (!settings.target) {
+    throw new Error("No re-embedding in progress");
+  }
+  const current = activeProvider(settings).config;
+  const target = providerForVersion(settings.target);
+  return activate(embeddingVersion(target), {
+    active: settings.target,
+    previous: current,
+    activated_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Swap back to the version replaced by the last cut-over. Chunks added since
+ * then have no vector in it and are left for embedMissingChunks.
+ */
+export async function rollbackEmbeddingVersion(userId: string) {
+  const settings = await getEmbeddingSettings(userId);
+  if (!settings.previous) {
+    throw new Error("No previous embedding version to roll back to");
+  }
+  const current = activeProvider(settings).config;
+  const previous = providerForVersion(settings.previous);
+  return activate(embeddingVersion(previous), {
+    active: settings.previous,
+    previous: current,
+    activated_at: new Date().toISOString(),
+  });
+}
+
+const PROVIDER_KINDS = ["openai", "http", "local"];
+
+/**
+ * Validate a re-embedding target from a request. There is no base URL: an
+ * http target is served by the one configured in EMBEDDING_BASE_URL.
+ */
+export function parseEmbeddingVersionConfig(
+  value: unknown
+): { config: EmbeddingVersionConfig } | { error: string } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { error: "provider must be an object" };
+  }
+  const input = value as Record<string, unknown>;
+  if (typeof input.kind !== "string" || !PROVIDER_KINDS.includes(input.kind)) {
+    return {
+      error: `provider.kind must be one of ${PROVIDER_KINDS.join(", ")}`,
+    };
+  }
+  if (input.baseUrl !== undefined) {
+    return {
+      error: "provider.baseUrl is not accepted; set EMBEDDING_BASE_URL instead",
+    };
+  }
+  if (input.model !== undefined && typeof input.model !== "string") {
+    return { error: "provider.model must be a string" };
+  }
+  const dimensions = input.dimensions;
+  if (
+    dimensions !== undefined &&
+    (typeof dimensions !== "number" ||
+      !Number.isInteger(dimensions) ||
+      dimensions < 1)
+  ) {
+    return { error: "provider.dimensions must be a positive integer" };
+  }
+  const config = {
+    kind: input.kind,
+    model: input.model,
+    dimensions,
+  } as EmbeddingVersionConfig;
+  try {
+    providerForVersion(config);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+  return { config };
+}
@@ -0,0 +1,464 @@
+import { createHash } from "crypto";
+import { getOpenAI } from "@/lib/openai";
+import {
+  cachedEmbeddings,
+  isEmbeddingCacheEnabled,
+} from "@/lib/embedding-cache";
+
+// Width of the pgvector columns (chat_chunks, chat_summaries). Narrower
+// vectors are zero-padded to it, which leaves cosine similarity unchanged.
+export const STORED_EMBEDDING_DIMENSIONS = 1536;
+
+export type EmbeddingProviderKind = "openai" | "http" | "local";
+
+export interface EmbeddingProvider {
+  kind: EmbeddingProviderKind;
+  // What a workspace stores to recreate this provider (no secrets)
+  config: EmbeddingVersionConfig;
+  model: string;
+  dimensions: number;
+  // Server the vectors come from (http providers only)
+  baseUrl?: string;
+  // USD per 1M input tokens, used for upload cost estimates (0 if free)
+  pricePerMillionTokens: number;
+  // Longer inputs are truncated before embedding
+  maxInputChars: number;
+  // One request for a few texts; batching and retries are up to the caller
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderConfig {
+  kind: EmbeddingProviderKind;
+  model?: string;
+  dimensions?: number;
+  // Root of an OpenAI-compatible API, e.g. http://localhost:8080/v1
+  baseUrl?: string;
+  apiKey?: string;
+  pricePerMillionTokens?: number;
+}
+
+// The base URL is left out as well: it always comes from env (see
+// providerForVersion)
+export type EmbeddingVersionConfig = Omit<
+  EmbeddingProviderConfig,
+  "apiKey" | "baseUrl"
+>;
+
+/** A query vector and the model version it can be compared against */
+export interface QueryEmbedding {
+  embedding: number[];
+  model: string;
+  dimensions: number;
+}
+
+const OPENAI_DEFAULT_MODEL = "text-embedding-3-small";
+// Native widths, reported when EMBEDDING_DIMENSIONS is not set
+const OPENAI_MODEL_DIMENSIONS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+const LOCAL_MODEL = "local-hashing-v1";
+const MAX_INPUT_CHARS = 8000;
+
+/**
+ * Hosted OpenAI embeddings; `dimensions` is only sent when configured,
+ * otherwise the model's native width is assumed. Responses are checked
+ * against it either way.
+ */
+export function createOpenAIEmbeddingProvider(
+  config: Omit<EmbeddingProviderConfig, "kind"> = {}
+): EmbeddingProvider {
+  const model = config.model ?? OPENAI_DEFAULT_MODEL;
+  const dimensions =
+    config.dimensions ??
+    OPENAI_MODEL_DIMENSIONS[model] ??
+    STORED_EMBEDDING_DIMENSIONS;
+  return {
+    kind: "openai",
+    config: { kind: "openai", model, dimensions: config.dimensions },
+    model,
+    dimensions,
+    pricePerMillionTokens:
+      config.pricePerMillionTokens ??
+      (model === OPENAI_DEFAULT_MODEL ? 0.02 : 0),
+    maxInputChars: MAX_INPUT_CHARS,
+    async embed(texts) {
+      const response = await getOpenAI().embeddings.create({
+        model,
+        input: texts,
+        encoding_format: "float",
+        ...(config.dimensions ? { dimensions: config.dimensions } : {}),
+      });
+      for (const row of response.data) {
+        if (row.embedding.length !== dimensions) {
+          throw new Error(
+            `${model} returned ${row.embedding.length} dimensions, expected ${dimensions}`
+          );
+        }
+      }
+      return response.data.map((row) => row.embedding);
+    },
+  };
+}
+
+/**
+ * Any server speaking the OpenAI embeddings API (vLLM, text-embeddings-
+ * inference, Ollama, LocalAI...). The dimension must be configured: it is
+ * recorded on every chunk and checked against each response.
+ */
+export function createHttpEmbeddingProvider(
+  config: Omit<EmbeddingProviderConfig, "kind">
+): EmbeddingProvider {
+  const { baseUrl, model, dimensions } = config;
+  if (!baseUrl || !model || !dimensions) {
+    throw new Error(
+      "The http embedding provider needs a base URL, model and dimensions (EMBEDDING_BASE_URL, EMBEDDING_MODEL, EMBEDDING_DIMENSIONS)"
+    );
+  }
+  const url = `${baseUrl.replace(/\/+$/, "")}/embeddings`;
+  return {
+    kind: "http",
+    config: { kind: "http", model, dimensions },
+    model,
+    dimensions,
+    baseUrl,
+    pricePerMillionTokens: config.pricePerMillionTokens ?? 0,
+    maxInputChars: MAX_INPUT_CHARS,
+    async embed(texts) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(config.apiKey
+            ? { Authorization: `Bearer ${config.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({ model, input: texts, encoding_format: "float" }),
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Embedding server returned ${response.status}: ${(await response.text()).slice(0, 200)}`
+        );
+      }
+      const body = (await response.json()) as {
+        data: Array<{ index?: number; embedding: number[] }>;
+      };
+      const rows = [...body.data].sort(
+        (a, b) => (a.index ?? 0) - (b.index ?? 0)
+      );
+      for (const row of rows) {
+        if (row.embedding.length !== dimensions) {
+          throw new Error(
+            `${model} returned ${row.embedding.length} dimensions, expected ${dimensions}`
+          );
+        }
+      }
+      return rows.map((row) => row.embedding);
+    },
+  };
+}
+
+/**
+ * Deterministic, dependency-free embedder for tests and air-gapped installs:
+ * word and word-bigram features hashed into signed buckets, L2-normalized.
+ * Texts sharing words land close together; there is no semantics beyond that.
+ */
+export function createHashingEmbeddingProvider(
+  config: Omit<EmbeddingProviderConfig, "kind"> = {}
+): EmbeddingProvider {
+  const dimensions = config.dimensions ?? STORED_EMBEDDING_DIMENSIONS;
+  const model = config.model ?? LOCAL_MODEL;
+  return {
+    kind: "local",
+    config: { kind: "local", model, dimensions },
+    model,
+    dimensions,
+    pricePerMillionTokens: 0,
+    maxInputChars: MAX_INPUT_CHARS,
+    async embed(texts) {
+      return texts.map((text) => hashingEmbedding(text, dimensions));
+    },
+  };
+}
+
+function hashingEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  const features = [
+    ...words,
+    ...words.slice(1).map((w, i) => `${words[i]} ${w}`),
+  ];
+  for (const feature of features) {
+    const digest = createHash("sha256").update(feature).digest();
+    const bucket = digest.readUInt32BE(0) % dimensions;
+    vector[bucket] += digest[4] & 1 ? 1 : -1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map((v) => v / norm) : vector;
+}
+
+export function createEmbeddingProvider(
+  config: EmbeddingProviderConfig
+): EmbeddingProvider {
+  const { kind, ...rest } = config;
+  if (kind === "http") return createHttpEmbeddingProvider(rest);
+  if (kind === "local") return createHashingEmbeddingProvider(rest);
+  return createOpenAIEmbeddingProvider(rest);
+}
+
+/**
+ * Provider settings from the environment: EMBEDDING_PROVIDER
+ * (openai|http|local, default openai), EMBEDDING_MODEL,
+ * EMBEDDING_DIMENSIONS, EMBEDDING_BASE_URL, EMBEDDING_API_KEY and
+ * EMBEDDING_PRICE_PER_MILLION_TOKENS.
+ */
+export function embeddingConfigFromEnv(
+  env: Record<string, string | undefined> = process.env
+): EmbeddingProviderConfig {
+  const number = (value: string | undefined) => {
+    const n = value ? Number(value) : NaN;
+    return Number.isFinite(n) && n > 0 ? n : undefined;
+  };
+  const kind = env.EMBEDDING_PROVIDER?.trim().toLowerCase() || "openai";
+  if (kind !== "openai" && kind !== "http" && kind !== "local") {
+    throw new Error(`Unknown EMBEDDING_PROVIDER: ${kind}`);
+  }
+  return {
+    kind,
+    model: env.EMBEDDING_MODEL || undefined,
+    dimensions: number(env.EMBEDDING_DIMENSIONS),
+    baseUrl: env.EMBEDDING_BASE_URL || undefined,
+    apiKey: env.EMBEDDING_API_KEY || undefined,
+    pricePerMillionTokens: number(env.EMBEDDING_PRICE_PER_MILLION_TOKENS),
+  };
+}
+
+function storableProvider(config: EmbeddingProviderConfig) {
+  const created = createEmbeddingProvider(config);
+  if (created.dimensions > STORED_EMBEDDING_DIMENSIONS) {
+    throw new Error(
+      `${created.model} has ${created.dimensions} dimensions; the database stores at most ${STORED_EMBEDDING_DIMENSIONS}`
+    );
+  }
+  return created;
+}
+
+let provider: EmbeddingProvider | null = null;
+
+/**
+ * The provider configured in the environment, created on first use so
+ * imports never throw. Workspaces that re-embedded into another version use
+ * that one instead (see lib/embedding-versions).
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) provider = storableProvider(embeddingConfigFromEnv());
+  return provider;
+}
+
+const versionProviders = new Map<string, EmbeddingProvider>();
+
+/**
+ * Provider for a stored version config. The base URL and API key always come
+ * from env: workspace settings are user-writable, and a URL read from them
+ * would be sent chunk text along with the server's key.
+ */
+export function providerForVersion(
+  config: EmbeddingVersionConfig
+): EmbeddingProvider {
+  const { kind, model, dimensions, pricePerMillionTokens } = config;
+  const key = JSON.stringify({
+    kind,
+    model,
+    dimensions,
+    pricePerMillionTokens,
+  });
+  let cached = versionProviders.get(key);
+  if (!cached) {
+    const { baseUrl, apiKey } = embeddingConfigFromEnv();
+    cached = storableProvider({
+      kind,
+      model,
+      dimensions,
+      pricePerMillionTokens,
+      baseUrl,
+      apiKey,
+    });
+    versionProviders.set(key, cached);
+  }
+  return cached;
+}
+
+/** Version key of stored vectors, as in chunk_embeddings.version */
+export function embeddingVersion(p: {
+  model: string;
+  dimensions: number;
+}): string {
+  return `${p.model}@${p.dimensions}`;
+}
+
+/** Replace the configured provider, e.g. with the hashing one in tests */
+export function setEmbeddingProvider(next: EmbeddingProvider | null) {
+  provider = next;
+}
+
+/** Columns recorded next to every stored vector */
+export function embeddingRecord(
+  embedder: EmbeddingProvider = getEmbeddingProvider()
+): {
+  embedding_model: string;
+  embedding_dimensions: number;
+} {
+  const { model, dimensions } = embedder;
+  return { embedding_model: model, embedding_dimensions: dimensions };
+}
+
+function truncate(text: string, maxChars: number): string {
+  return text.length > maxChars ? text.substring(0, maxChars) : text;
+}
+
+function toStoredWidth(vector: number[]): number[] {
+  if (vector.length >= STORED_EMBEDDING_DIMENSIONS) return vector;
+  return vector.concat(
+    new Array(STORED_EMBEDDING_DIMENSIONS - vector.length).fill(0)
+  );
+}
+
+export async function generateEmbedding(
+  text: string,
+  embedder: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[]> {
+  try {
+    const [embedding] = await withCache(
+      embedder,
+      [truncate(text, embedder.maxInputChars)],
+      async (input) => (await embedder.embed(input)).map(toStoredWidth),
+      true
+    );
+    return embedding;
+  } catch (error) {
+    console.error("Error generating embedding:", error);
+
+    // Check for specific error types
+    if (error instanceof Error) {
+      if (
+        error.message.includes("rate_limit") ||
+        error.message.includes("429")
+      ) {
+        throw new Error("Rate limit exceeded - please try again later");
+      }
+      if (
+        error.message.includes("quota") ||
+        error.message.includes("billing")
+      ) {
+        throw new Error(
+          "API quota exceeded - please check your OpenAI billing"
+        );
+      }
+      if (
+        error.message.includes("fetch failed") ||
+        error.message.includes("network")
+      ) {
+        throw new Error("Network error - please check your connection");
+      }
+    }
+
+    throw new Error("Failed to generate embedding");
+  }
+}
+
+export async function embedQuery(
+  text: string,
+  embedder: EmbeddingProvider = getEmbeddingProvider()
+): Promise<QueryEmbedding> {
+  return {
+    embedding: await generateEmbedding(text, embedder),
+    model: embedder.model,
+    dimensions: embedder.dimensions,
+  };
+}
+
+export async function generateEmbeddingsBatch(
+  texts: string[],
+  embedder: EmbeddingProvider = getEmbeddingProvider()
+): Promise<number[][]> {
+  return withCache(
+    embedder,
+    texts.map((t) => truncate(t, embedder.maxInputChars)),
+    (misses) => embedInBatches(misses, embedder),
+    false
+  );
+}
+
+/**
+ * Where a provider's vectors live in the shared embedding cache: the same
+ * model name on two servers need not give the same vectors. Null for local
+ * embeddings, which are cheaper to compute than to look up, and for http
+ * providers not pointed at the server configured in env, whose vectors no
+ * other user should be served.
+ */
+function cacheNamespace(embedder: EmbeddingProvider): string | null {
+  const version = embeddingVersion(embedder);
+  if (embedder.kind === "openai") return `openai|${version}`;
+  if (
+    embedder.kind === "http" &&
+    embedder.baseUrl &&
+    embedder.baseUrl === embeddingConfigFromEnv().baseUrl
+  ) {
+    return `http|${embedder.baseUrl}|${version}`;
+  }
+  return null;
+}
+
+/**
+ * Serve vectors from the embedding cache (lib/embedding-cache) and compute
+ * only the misses. Query embeddings are also remembered in memory.
+ */
+function withCache(
+  embedder: EmbeddingProvider,
+  texts: string[],
+  compute: (texts: string[]) => Promise<number[][]>,
+  remember: boolean
+): Promise<number[][]> {
+  const namespace = isEmbeddingCacheEnabled() ? cacheNamespace(embedder) : null;
+  if (!namespace) return compute(texts);
+  return cachedEmbeddings(namespace, texts, compute, { remember });
+}
+
+async function embedInBatches(
+  texts: string[],
+  embedder: EmbeddingProvider
+): Promise<number[][]> {
+  // Split into chunks of 64 inputs to stay well under limits and reduce rate-limit pressure
+  const batchSize = 64;
+  const embeddings: number[][] = [];
+  for (let i = 0; i < texts.length; i += batchSize) {
+    const slice = texts.slice(i, i + batchSize);
+    // Local embeddings cannot fail transiently, so skip retries and pacing
+    if (embedder.kind === "local") {
+      embeddings.push(...(await embedder.embed(slice)).map(toStoredWidth));
+      continue;
+    }
+    // Retry with backoff for resilience
+    let lastErr: unknown;
+    for (let attempt = 0; attempt < 6; attempt++) {
+      try {
+        const vectors = await embedder.embed(slice);
+        for (const vector of vectors) embeddings.push(toStoredWidth(vector));
+        lastErr = undefined;
+        break;
+      } catch (error) {
+        lastErr = error;
+        const jitter = Math.floor(Math.random() * 250);
+        const delay = 1000 * Math.pow(2, attempt) + jitter;
+        await new Promise((r) => setTimeout(r, delay));
+      }
+    }
+    if (lastErr) {
+      throw lastErr;
+    }
+    // Small pacing delay between batches
+    await new Promise((r) => setTimeout(r, 200));
+  }
+  return embeddings;
+}
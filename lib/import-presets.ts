@@ -0,0 +1,67 @@
+import { createClient } from "@/lib/supabase/server";
+import type { ColumnMapping } from "@/lib/importers";
+
+export interface ImportPreset {
+  id: string;
+  user_id: string;
+  name: string;
+  importer: string;
+  mapping: ColumnMapping;
+  created_at: string;
+  updated_at: string;
+}
+
+export async function listImportPresets(
+  userId: string
+): Promise<ImportPreset[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("import_presets")
+    .select("*")
+    .eq("user_id", userId)
+    .order("name", { ascending: true });
+  if (error) throw error;
+  return (data as ImportPreset[]) ?? [];
+}
+
+/** Save a mapping under a name; saving an existing name replaces its mapping */
+export async function saveImportPreset(
+  userId: string,
+  name: string,
+  importer: string,
+  mapping: ColumnMapping
+): Promise<ImportPreset> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("import_presets")
+    .upsert(
+      {
+        user_id: userId,
+        name,
+        importer,
+        mapping,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,name" }
+    )
+    .select()
+    .single();
+  if (error) throw error;
+  return data as ImportPreset;
+}
+
+/** Returns false when the preset does not exist or belongs to someone else */
+export async function deleteImportPreset(
+  userId: string,
+  presetId: string
+): Promise<boolean> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("import_presets")
+    .delete()
+    .eq("id", presetId)
+    .eq("user_id", userId)
+    .select("id");
+  if (error) throw error;
+  return (data?.length ?? 0) > 0;
+}
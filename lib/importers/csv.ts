@@ -0,0 +1,191 @@
+import { parseChatDate } from "@/lib/dates";
+import type { NormalizedMsg } from "@/lib/rag";
+import {
+  COLUMN_ROLES,
+  type ChatImporter,
+  type ColumnMapping,
+  type ImportInput,
+} from "@/lib/importers/types";
+
+const DELIMITERS = [",", ";", "\t", "|"];
+const SAMPLE_ROWS = 5;
+
+// Header names that usually hold each role, tried in order
+const COLUMN_GUESSES: Record<keyof ColumnMapping, RegExp> = {
+  text: /^(content|message|message ?text|text|body|msg)$/i,
+  participant:
+    /^(author|sender|from|user|user ?name|display ?name|participant|name)$/i,
+  email: /e-?mail/i,
+  timestamp: /^(timestamp|date|time|date ?time|created( ?at)?|sent( ?at)?)$/i,
+  thread_id: /(thread|conversation|parent|reply ?to)/i,
+  message_id: /^(id|message ?id|msg ?id)$/i,
+};
+
+/**
+ * Delimited exports (Teams, Discord bots, internal tools). Columns are mapped
+ * to message fields by the uploader; without a mapping, one is guessed from
+ * the header names.
+ */
+export const csvImporter: ChatImporter = {
+  describe: () => ({
+    id: "csv",
+    name: "CSV / TSV table",
+    description:
+      "A delimited file with a header row; map its columns to participant, email, timestamp, text and thread id.",
+    extensions: [".csv", ".tsv"],
+  }),
+  detect(input) {
+    if (input.extension === ".csv" || input.extension === ".tsv") return 0.9;
+    if (input.zipEntryNames() || input.json() !== undefined) return 0;
+    const lines = input.text().split(/\r?\n/, 10).filter(Boolean);
+    const delimiter = sniffDelimiter(lines);
+    return delimiter && lines.length > 1 ? 0.3 : 0;
+  },
+  inspect(input) {
+    const { headers, rows, delimiter } = readTable(input);
+    return {
+      columns: headers,
+      delimiter,
+      sample_rows: rows.slice(0, SAMPLE_ROWS),
+      row_count: rows.length,
+      suggested_mapping: suggestColumnMapping(headers),
+    };
+  },
+  parse(input) {
+    const { headers, rows } = readTable(input);
+    const mapping = input.columnMapping ?? suggestColumnMapping(headers);
+    if (!mapping.text) {
+      throw new Error("No column is mapped to the message text");
+    }
+    for (const role of COLUMN_ROLES) {
+      const column = mapping[role];
+      if (column && !headers.includes(column)) {
+        throw new Error(`Mapped column "${column}" is not in the file`);
+      }
+    }
+
+    const index = (role: keyof ColumnMapping) =>
+      mapping[role] ? headers.indexOf(mapping[role]!) : -1;
+    const cell = (row: string[], role: keyof ColumnMapping) => {
+      const i = index(role);
+      return i >= 0 ? (row[i] ?? "").trim() : "";
+    };
+
+    const messages: NormalizedMsg[] = [];
+    for (const row of rows) {
+      const content = cell(row, "text");
+      if (!content) continue;
+      const rawTimestamp = cell(row, "timestamp");
+      messages.push({
+        content,
+        timestamp: parseChatDate(rawTimestamp, input.dateOptions),
+        rawTimestamp: rawTimestamp || undefined,
+        participant: cell(row, "participant") || "Unknown",
+        email: cell(row, "email") || undefined,
+        threadId: cell(row, "thread_id") || undefined,
+        messageId: cell(row, "message_id") || undefined,
+      });
+    }
+
+    return [
+      {
+        filename: input.name,
+        sourceKey: null,
+        label: null,
+        metadata: { source: "csv", column_mapping: mapping },
+        messages,
+      },
+    ];
+  },
+};
+
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<string>();
+  for (const role of COLUMN_ROLES) {
+    const column = headers.find(
+      (h) => !taken.has(h) && COLUMN_GUESSES[role].test(h.trim())
+    );
+    if (column) {
+      mapping[role] = column;
+      taken.add(column);
+    }
+  }
+  return mapping;
+}
+
+function readTable(input: ImportInput): {
+  headers: string[];
+  rows: string[][];
+  delimiter: string;
+} {
+  const text = input.text().replace(/^\uFEFF/, "");
+  const delimiter =
+    input.extension === ".tsv"
+      ? "\t"
+      : (sniffDelimiter(text.split(/\r?\n/, 10).filter(Boolean)) ?? ",");
+  const [headerRow = [], ...rows] = parseDelimited(text, delimiter);
+  const headers = headerRow.map((h, i) => h.trim() || `column_${i + 1}`);
+  return {
+    headers,
+    rows: rows.filter((r) => r.some((c) => c.trim())),
+    delimiter,
+  };
+}
+
+// The delimiter that splits the first lines into the same number (>1) of fields
+function sniffDelimiter(lines: string[]): string | null {
+  let best: { delimiter: string; fields: number } | null = null;
+  for (const delimiter of DELIMITERS) {
+    const counts = lines
+      .slice(0, 5)
+      .map((l) => parseDelimited(l, delimiter)[0]?.length ?? 0);
+    if (counts.length === 0 || counts[0] < 2) continue;
+    if (counts.every((c) => c === counts[0])) {
+      if (!best || counts[0] > best.fields) {
+        best = { delimiter, fields: counts[0] };
+      }
+    }
+  }
+  return best?.delimiter ?? null;
+}
+
+/** RFC 4180 reader: quoted fields may contain delimiters, "" and newlines */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
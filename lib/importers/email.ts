@@ -0,0 +1,506 @@
+import { strFromU8, unzipSync } from "fflate";
+import { parseChatDate, type DateParseOptions } from "@/lib/dates";
+import type { MessageAttachment, NormalizedMsg } from "@/lib/rag";
+import type { ChatImporter } from "@/lib/importers/types";
+
+export interface EmailAddress {
+  name: string;
+  email: string;
+}
+
+export interface ParsedEmail {
+  messageId: string | null;
+  // Message-IDs this one replies to, oldest first (References + In-Reply-To)
+  references: string[];
+  from: EmailAddress | null;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  subject: string;
+  date: string | null;
+  body: string;
+  attachments: MessageAttachment[];
+}
+
+// Long newsletters and pasted logs would otherwise become a single huge chunk
+const MAX_BODY_CHARS = 8000;
+
+/**
+ * Email as conversation threads: an mbox file, a single .eml, or a ZIP of
+ * .eml/.mbox files. Replies are grouped into threads by In-Reply-To and
+ * References; quoted text and signatures are stripped from each body.
+ * Messages come out in date order across threads, each tagged with its
+ * thread: a new reply in an old thread must land after the source's
+ * high-water mark, and thread chunking regroups them.
+ */
+export const emailImporter: ChatImporter = {
+  describe: () => ({
+    id: "email",
+    name: "Email (mbox / .eml)",
+    description:
+      "An mbox mailbox, a single .eml, or a ZIP of .eml files; messages are threaded and quoted replies removed.",
+    extensions: [".mbox", ".eml", ".zip"],
+  }),
+  detect(input) {
+    const names = input.zipEntryNames();
+    if (names) {
+      return names.some((n) => /\.(eml|mbox)$/i.test(n)) ? 0.85 : 0;
+    }
+    if (input.extension === ".mbox" || input.extension === ".eml") return 0.9;
+    const head = input.text().slice(0, 4096);
+    const looksLikeHeaders =
+      /^(From |Received:|Return-Path:|Message-ID:|From:|Date:)/i.test(head) &&
+      /^Subject:/im.test(head) &&
+      /^From:/im.test(head);
+    return looksLikeHeaders ? 0.6 : 0;
+  },
+  parse(input) {
+    // Work on a binary string so each part can be decoded with its own charset
+    const raws: string[] = [];
+    const names = input.zipEntryNames();
+    if (names) {
+      const files = unzipSync(input.bytes, {
+        filter: (file) => /\.(eml|mbox)$/i.test(file.name),
+      });
+      for (const [name, bytes] of Object.entries(files)) {
+        const binary = strFromU8(bytes, true);
+        raws.push(...(/\.mbox$/i.test(name) ? splitMbox(binary) : [binary]));
+      }
+    } else {
+      const binary = strFromU8(input.bytes, true);
+      raws.push(...(binary.startsWith("From ") ? splitMbox(binary) : [binary]));
+    }
+
+    const emails = raws
+      .map(parseEmail)
+      .filter((e): e is ParsedEmail => e !== null);
+    const threads = threadEmails(emails);
+    const messages = threads.flatMap((thread) =>
+      thread.emails
+        .map((email, index) =>
+          toNormalizedEmail(email, thread.id, index === 0, input.dateOptions)
+        )
+        .filter((m): m is NormalizedMsg => m !== null)
+    );
+    // Undated emails go last; the sort is stable, so ties keep thread order
+    const time = (m: NormalizedMsg) =>
+      m.timestamp ? Date.parse(m.timestamp) : Number.MAX_SAFE_INTEGER;
+    messages.sort((a, b) => time(a) - time(b));
+
+    return [
+      {
+        filename: input.name,
+        sourceKey: null,
+        label: null,
+        metadata: {
+          source: "email",
+          email_count: emails.length,
+          thread_count: threads.length,
+        },
+        messages,
+      },
+    ];
+  },
+};
+
+/** Split an mbox on its "From " separator lines and undo >From quoting */
+export function splitMbox(binary: string): string[] {
+  return binary
+    .split(/\r?\n(?=From [^\r\n]*\r?\n)/)
+    .map((block) =>
+      block.replace(/^From [^\r\n]*\r?\n/, "").replace(/^>(>*From )/gm, "$1")
+    )
+    .filter((block) => block.trim());
+}
+
+export function parseEmail(raw: string): ParsedEmail | null {
+  const { headers, body } = splitHeaders(raw);
+  if (!headers.has("from") && !headers.has("subject")) return null;
+
+  const content = readBody(headers, body);
+  const from = parseAddressList(headerText(headers, "from"))[0] ?? null;
+  const ids = (value: string): string[] => value.match(/<[^<>\s]+>/g) ?? [];
+  const references = ids(headerText(headers, "references"));
+  for (const id of ids(headerText(headers, "in-reply-to"))) {
+    if (!references.includes(id)) references.push(id);
+  }
+
+  return {
+    messageId: ids(headerText(headers, "message-id"))[0] ?? null,
+    references,
+    from,
+    to: parseAddressList(headerText(headers, "to")),
+    cc: parseAddressList(headerText(headers, "cc")),
+    subject: headerText(headers, "subject").trim(),
+    date: headerText(headers, "date").trim() || null,
+    body: stripQuotedReply(content.text),
+    attachments: content.attachments,
+  };
+}
+
+function toNormalizedEmail(
+  email: ParsedEmail,
+  threadId: string,
+  isFirstInThread: boolean,
+  dateOptions: DateParseOptions
+): NormalizedMsg | null {
+  let body = email.body;
+  if (body.length > MAX_BODY_CHARS) {
+    body = `${body.slice(0, MAX_BODY_CHARS)}\n[... truncated]`;
+  }
+  // The subject carries most of the topic; keep it on the thread's opener
+  const content =
+    isFirstInThread && email.subject
+      ? `Subject: ${email.subject}\n${body}`.trim()
+      : body;
+  if (!content && email.attachments.length === 0) return null;
+
+  return {
+    content:
+      content ||
+      email.attachments.map((a) => `[Attachment: ${a.name}]`).join(" "),
+    timestamp: parseChatDate(email.date, dateOptions),
+    rawTimestamp: email.date ?? undefined,
+    participant: email.from?.name || email.from?.email || "Unknown",
+    email: email.from?.email || undefined,
+    recipients: [...email.to, ...email.cc],
+    threadId,
+    messageId: email.messageId ?? undefined,
+    attachments: email.attachments.length ? email.attachments : undefined,
+  };
+}
+
+/**
+ * Group emails into threads: replies join the thread of anything they
+ * reference, and reference-less "Re:" mails join the thread with the same
+ * subject. Threads and their emails are ordered by date.
+ */
+export function threadEmails(
+  emails: ParsedEmail[]
+): Array<{ id: string; emails: ParsedEmail[] }> {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    let root = id;
+    while (parent.get(root) && parent.get(root) !== root) {
+      root = parent.get(root)!;
+    }
+    parent.set(id, root);
+    return root;
+  };
+  const union = (a: string, b: string) => {
+    if (!parent.has(a)) parent.set(a, a);
+    if (!parent.has(b)) parent.set(b, b);
+    const ra = find(a);
+    const rb = find(b);
+    if (ra !== rb) parent.set(rb, ra);
+  };
+
+  const keys = emails.map((e, i) => e.messageId ?? `<no-id-${i}>`);
+  const bySubject = new Map<string, string>();
+  emails.forEach((email, i) => {
+    union(keys[i], keys[i]);
+    for (const ref of email.references) union(ref, keys[i]);
+    const subject = normalizeSubject(email.subject);
+    if (!subject) return;
+    const isReply = subject !== email.subject.trim().toLowerCase();
+    const existing = bySubject.get(subject);
+    if (existing && isReply && email.references.length === 0) {
+      union(existing, keys[i]);
+    } else if (!existing) {
+      bySubject.set(subject, keys[i]);
+    }
+  });
+
+  const time = (e: ParsedEmail) => {
+    const parsed = e.date ? Date.parse(parseChatDate(e.date) ?? "") : NaN;
+    return Number.isNaN(parsed) ? Number.MAX_SAFE_INTEGER : parsed;
+  };
+  const groups = new Map<string, ParsedEmail[]>();
+  emails.forEach((email, i) => {
+    const root = find(keys[i]);
+    const group = groups.get(root);
+    if (group) group.push(email);
+    else groups.set(root, [email]);
+  });
+
+  return Array.from(groups.values())
+    .map((group) => {
+      const sorted = group.sort((a, b) => time(a) - time(b));
+      // The opener's id identifies the thread across uploads
+      const opener = sorted[0];
+      return {
+        id: opener.messageId ?? keys[emails.indexOf(opener)],
+        emails: sorted,
+      };
+    })
+    .sort((a, b) => time(a.emails[0]) - time(b.emails[0]));
+}
+
+function normalizeSubject(subject: string): string {
+  return subject
+    .trim()
+    .replace(/^((re|aw|fw|fwd|wg|tr)(\[\d+\])?:\s*)+/i, "")
+    .toLowerCase();
+}
+
+/**
+ * Drop the quoted history and signature from a reply: "> " lines, the
+ * "On ... wrote:" / "Am ... schrieb ...:" / "Le ... a écrit :" attribution,
+ * Outlook's "-----Original Message-----" or "From: ... Sent:" block, and
+ * anything after a "-- " signature separator or a "Sent from my ..." line.
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n?/g, "\n").split("\n");
+  const kept: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const next = `${line} ${lines[i + 1] ?? ""}`;
+    if (
+      /^-- ?$/.test(line) ||
+      /^-{2,}\s*(Original Message|Ursprüngliche Nachricht|Message d'origine)\s*-{2,}/i.test(
+        line.trim()
+      ) ||
+      /^_{10,}$/.test(line.trim()) ||
+      /^Sent from my /i.test(line.trim()) ||
+      /^(On|Am|Le)\s.{5,200}(wrote|schrieb|a écrit)\s?:\s*$/i.test(
+        next.trim()
+      ) ||
+      (/^From:\s/i.test(line) && /^(Sent|Date):\s/i.test(lines[i + 1] ?? ""))
+    ) {
+      break;
+    }
+    if (/^\s*>/.test(line)) continue;
+    kept.push(line);
+  }
+  return kept
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// RFC 822 / MIME reading below works on binary strings (one char per byte)
+
+type Headers = Map<string, string[]>;
+
+function splitHeaders(raw: string): { headers: Headers; body: string } {
+  const match = raw.match(/\r?\n\r?\n/);
+  const headerBlock = match ? raw.slice(0, match.index) : raw;
+  const body = match ? raw.slice(match.index! + match[0].length) : "";
+
+  const headers: Headers = new Map();
+  // Continuation lines start with whitespace
+  for (const line of headerBlock.replace(/\r?\n[ \t]+/g, " ").split(/\r?\n/)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers.set(name, [
+      ...(headers.get(name) ?? []),
+      line.slice(colon + 1).trim(),
+    ]);
+  }
+  return { headers, body };
+}
+
+/** First value of a header, with RFC 2047 encoded-words and raw UTF-8 decoded */
+function headerText(headers: Headers, name: string): string {
+  const value = headers.get(name)?.[0] ?? "";
+  return decodeEncodedWords(decodeBytes(value, "utf-8"));
+}
+
+function headerParam(value: string, param: string): string | null {
+  const match = value.match(
+    new RegExp(`(?:^|;)\\s*${param}\\*?=\\s*(?:"([^"]*)"|([^;\\s]*))`, "i")
+  );
+  if (!match) return null;
+  const raw = match[1] ?? match[2] ?? "";
+  // RFC 2231: charset'lang'percent-encoded
+  const extended = raw.match(/^([\w-]+)'[^']*'(.*)$/);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[2]);
+    } catch {
+      return extended[2];
+    }
+  }
+  return decodeEncodedWords(raw);
+}
+
+function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(=\?)/g, "$1$2")
+    .replace(
+      /=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g,
+      (_, charset: string, encoding: string, text: string) => {
+        const binary =
+          encoding.toUpperCase() === "B"
+            ? safeAtob(text)
+            : decodeQuotedPrintable(text.replace(/_/g, " "));
+        return decodeBytes(binary, charset);
+      }
+    );
+}
+
+function safeAtob(value: string): string {
+  try {
+    return atob(value.replace(/[^A-Za-z0-9+/=]/g, ""));
+  } catch {
+    return "";
+  }
+}
+
+function decodeQuotedPrintable(value: string): string {
+  return value
+    .replace(/=\r?\n/g, "")
+    .replace(/=([0-9A-Fa-f]{2})/g, (_, hex: string) =>
+      String.fromCharCode(parseInt(hex, 16))
+    );
+}
+
+function decodeBytes(binary: string, charset: string): string {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++)
+    bytes[i] = binary.charCodeAt(i) & 0xff;
+  try {
+    return new TextDecoder(charset.trim().toLowerCase() || "utf-8").decode(
+      bytes
+    );
+  } catch {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+}
+
+/** Plain-text body (text/plain preferred over text/html) and attachment names */
+function readBody(
+  headers: Headers,
+  body: string
+): { text: string; attachments: MessageAttachment[] } {
+  const contentType = headers.get("content-type")?.[0] ?? "text/plain";
+  const mimeType = contentType.split(";")[0].trim().toLowerCase();
+  const disposition = headers.get("content-disposition")?.[0] ?? "";
+  const filename =
+    headerParam(disposition, "filename") ?? headerParam(contentType, "name");
+
+  if (mimeType.startsWith("multipart/")) {
+    const boundary = headerParam(contentType, "boundary");
+    if (!boundary) return { text: "", attachments: [] };
+    const parts = splitMultipart(body, boundary).map((part) => {
+      const parsed = splitHeaders(part);
+      return readBody(parsed.headers, parsed.body);
+    });
+    const attachments = parts.flatMap((p) => p.attachments);
+    const texts = parts.map((p) => p.text).filter(Boolean);
+    // alternative: the parts are the same content, keep the first readable one
+    const text =
+      mimeType === "multipart/alternative"
+        ? (texts[0] ?? "")
+        : texts.join("\n\n");
+    return { text, attachments };
+  }
+
+  if (
+    /^attachment/i.test(disposition) ||
+    (filename && !mimeType.startsWith("text/"))
+  ) {
+    return {
+      text: "",
+      attachments: filename ? [{ name: filename, type: mimeType }] : [],
+    };
+  }
+  if (mimeType === "message/rfc822") {
+    return {
+      text: "",
+      attachments: [{ name: filename || "forwarded.eml", type: mimeType }],
+    };
+  }
+  if (mimeType !== "text/plain" && mimeType !== "text/html") {
+    return { text: "", attachments: [] };
+  }
+
+  const encoding = (headers.get("content-transfer-encoding")?.[0] ?? "")
+    .trim()
+    .toLowerCase();
+  const binary =
+    encoding === "base64"
+      ? safeAtob(body)
+      : encoding === "quoted-printable"
+        ? decodeQuotedPrintable(body)
+        : body;
+  const text = decodeBytes(
+    binary,
+    headerParam(contentType, "charset") || "utf-8"
+  );
+  return {
+    text: mimeType === "text/html" ? htmlToText(text) : text,
+    attachments: [],
+  };
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const parts = body.split(delimiter).slice(1);
+  const result: string[] = [];
+  for (const part of parts) {
+    if (part.startsWith("--")) break;
+    result.push(part.replace(/^\r?\n/, ""));
+  }
+  return result;
+}
+
+function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<blockquote[\s\S]*?<\/blockquote>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/** "Dana <dana@x.com>, \"Doe, Sam\" <sam@y.com>, ops@z.com" */
+export function parseAddressList(value: string): EmailAddress[] {
+  const addresses: EmailAddress[] = [];
+  let current = "";
+  let quoted = false;
+  let angle = false;
+  for (const ch of value) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === "<") angle = true;
+    else if (ch === ">") angle = false;
+    if ((ch === "," || ch === ";") && !quoted && !angle) {
+      addresses.push(...parseAddress(current));
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  addresses.push(...parseAddress(current));
+  return addresses;
+}
+
+function parseAddress(value: string): EmailAddress[] {
+  const text = value.trim();
+  if (!text) return [];
+  const angle = text.match(/^(.*?)<([^<>]+)>/);
+  if (angle) {
+    const email = angle[2].trim().toLowerCase();
+    const name = angle[1].trim().replace(/^"|"$/g, "").trim();
+    return [{ name: name || email, email }];
+  }
+  const comment = text.match(/^([^\s()]+@[^\s()]+)\s*\(([^)]*)\)/);
+  if (comment) {
+    return [
+      {
+        name: comment[2].trim() || comment[1],
+        email: comment[1].toLowerCase(),
+      },
+    ];
+  }
+  return /@/.test(text) ? [{ name: text, email: text.toLowerCase() }] : [];
+}
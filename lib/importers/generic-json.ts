@@ -0,0 +1,54 @@
+import type { ChatImporter } from "@/lib/importers/types";
+import {
+  extractMessagesFromJSON,
+  pruneAnnotations,
+  streamMessagesFromJSON,
+  toNormalizedMsg,
+} from "@/lib/importers/google-chat";
+
+/**
+ * Last-resort importer for JSON that no dedicated importer recognises. It
+ * probes common field names (content/message/body, sender/author/user...), so
+ * it only wins auto-detection when nothing else matches.
+ */
+export const genericJsonImporter: ChatImporter = {
+  describe: () => ({
+    id: "generic-json",
+    name: "Generic JSON",
+    description:
+      "Best-effort parsing of arbitrary JSON message arrays by guessing common field names.",
+    extensions: [".json"],
+  }),
+  detect(input) {
+    const data = input.json();
+    return data && typeof data === "object" ? 0.1 : 0;
+  },
+  parse(input) {
+    const chatData = input.json() as Record<string, unknown>;
+    pruneAnnotations(chatData);
+    return [
+      {
+        filename: input.name,
+        sourceKey: null,
+        label: null,
+        metadata: { source: "generic_json" },
+        messages: extractMessagesFromJSON(chatData, input.dateOptions).map(
+          toNormalizedMsg
+        ),
+      },
+    ];
+  },
+  // Streaming only covers a root array or a top-level "messages" array
+  detectStream(input) {
+    return /^\s*(\[|\{\s*"messages"\s*:\s*\[)/.test(input.head) ? 0.1 : 0;
+  },
+  parseStream(input) {
+    return {
+      filename: input.name,
+      sourceKey: null,
+      label: null,
+      metadata: { source: "generic_json" },
+      messages: () => streamMessagesFromJSON(input),
+    };
+  },
+};
@@ -0,0 +1,490 @@
+import { strFromU8, unzipSync } from "fflate";
+import type { MessageAttachment, NormalizedMsg } from "@/lib/rag";
+import { parseChatDate, type DateParseOptions } from "@/lib/dates";
+import { streamJsonArrayItems } from "@/lib/json-stream";
+import type { ChatImporter, StreamImportInput } from "@/lib/importers/types";
+
+export interface Creator {
+  name: string;
+  email: string;
+  user_type: string;
+}
+
+export interface ChatMessage {
+  creator: Creator;
+  created_date: string | null;
+  // Date string as it appeared in the export, before parsing
+  raw_created_date: string | null;
+  text: string;
+  // Thread the message belongs to; empty when the export has none
+  topic_id: string;
+  message_id: string;
+  mentions: string[];
+  links: string[];
+  attachments: MessageAttachment[];
+}
+
+export interface TakeoutGroupMember {
+  name: string;
+  email: string;
+  user_type: string;
+}
+
+export interface TakeoutGroup {
+  // Directory name under Groups/, e.g. "Space AAAAxyz" or "DM abc123"
+  id: string;
+  name: string | null;
+  members: TakeoutGroupMember[];
+  messages: ChatMessage[];
+}
+
+export const googleChatJsonImporter: ChatImporter = {
+  describe: () => ({
+    id: "google-chat-json",
+    name: "Google Chat messages.json",
+    description:
+      "A single messages.json from a Google Chat Takeout export (creator, created_date, text, topic_id, message_id).",
+    extensions: [".json"],
+  }),
+  detect(input) {
+    const data = input.json() as Record<string, unknown> | undefined;
+    if (!data || !Array.isArray(data.messages)) return 0;
+    const sample = (data.messages as Record<string, unknown>[]).slice(0, 20);
+    const matches = sample.filter(
+      (m) => m && typeof m === "object" && m.creator && m.message_id
+    ).length;
+    return sample.length > 0 && matches / sample.length >= 0.5 ? 0.9 : 0;
+  },
+  parse(input) {
+    const chatData = input.json() as Record<string, unknown>;
+    // Shrink annotations to mentions/links/files before walking the tree
+    pruneAnnotations(chatData);
+    return [
+      {
+        filename: input.name,
+        sourceKey: null,
+        label: null,
+        metadata: { source: "google_chat_json" },
+        messages: extractMessagesFromJSON(chatData, input.dateOptions).map(
+          toNormalizedMsg
+        ),
+      },
+    ];
+  },
+  detectStream(input) {
+    // Only the first messages are visible, so check the shape of those
+    const head = input.head;
+    const matches =
+      /^\s*\{\s*"messages"\s*:\s*\[\s*\{/.test(head) &&
+      head.includes('"creator"') &&
+      head.includes('"message_id"');
+    return matches ? 0.9 : 0;
+  },
+  parseStream(input) {
+    return {
+      filename: input.name,
+      sourceKey: null,
+      label: null,
+      metadata: { source: "google_chat_json" },
+      messages: () => streamMessagesFromJSON(input),
+    };
+  },
+}
+
+export const googleChatTakeoutImporter: ChatImporter = {
+  describe: () => ({
+    id: "google-chat-takeout",
+    name: "Google Chat Takeout archive",
+    description:
+      "A Google Takeout ZIP; every Groups/<id>/ becomes its own source, named from group_info.json.",
+    extensions: [".zip"],
+  }),
+  detect(input) {
+    const names = input.zipEntryNames();
+    if (!names) return 0;
+    return names.some((n) => takeoutEntryInfo(n)?.kind === "messages")
+      ? 0.95
+      : 0;
+  },
+  parse(input) {
+    return extractTakeoutArchive(input.bytes, input.dateOptions).map(
+      (group) => ({
+        filename: `${input.name}/${group.id}`,
+        sourceKey: `google-chat:${group.id}`,
+        label: group.name,
+        metadata: {
+          source: "google_chat_takeout",
+          archive: input.name,
+          group_id: group.id,
+          group_name: group.name,
+          group_members: group.members,
+        },
+        messages: group.messages.map(toNormalizedMsg),
+      })
+    );
+  },
+}
+
+export function toNormalizedMsg(m: ChatMessage): NormalizedMsg {
+  return {
+    content: m.text,
+    timestamp: m.created_date,
+    rawTimestamp: m.raw_created_date ?? undefined,
+    participant: m.creator.name,
+    email: m.creator.email,
+    threadId: m.topic_id || undefined,
+    messageId: m.message_id || undefined,
+    mentions: m.mentions.length ? m.mentions : undefined,
+    links: m.links.length ? m.links : undefined,
+    attachments: m.attachments.length ? m.attachments : undefined,
+  };
+}
+
+// Compact form of a Google Chat annotation; everything else (formatting runs,
+// thumbnails, rendering hints) is dropped
+type SlimAnnotation =
+  | { mention: string }
+  | { url: string; title: string | null }
+  | { drive_file: string; url: string | null };
+
+/**
+ * Replace every `annotations` array with the parts retrieval can use (user
+ * mentions, shared URLs, Drive files) before messages are extracted. The raw
+ * payloads are large and would otherwise be walked as candidate messages.
+ */
+export function pruneAnnotations(obj: unknown): void {
+  if (!obj || typeof obj !== "object") return;
+  if (Array.isArray(obj)) {
+    for (const item of obj) pruneAnnotations(item);
+    return;
+  }
+  const record = obj as Record<string, unknown>;
+  for (const key of Object.keys(record)) {
+    if (key === "annotations") {
+      record[key] = Array.isArray(record[key])
+        ? (record[key] as unknown[])
+            .map(slimAnnotation)
+            .filter((a): a is SlimAnnotation => a !== null)
+        : [];
+    } else {
+      pruneAnnotations(record[key]);
+    }
+  }
+}
+
+function slimAnnotation(raw: unknown): SlimAnnotation | null {
+  if (!raw || typeof raw !== "object") return null;
+  const annotation = raw as Record<string, Record<string, unknown> | undefined>;
+
+  const mention = annotation.user_mention_metadata;
+  const user = mention?.user as Record<string, unknown> | undefined;
+  if (user?.name) return { mention: String(user.name) };
+
+  const link = annotation.url_metadata;
+  if (link) {
+    // Takeout wraps the URL in an object with a single long-named key
+    const url =
+      typeof link.url === "string"
+        ? link.url
+        : Object.values((link.url as Record<string, unknown>) ?? {}).find(
+            (v): v is string => typeof v === "string"
+          );
+    if (url) return { url, title: (link.title as string) || null };
+  }
+
+  const drive = annotation.drive_metadata;
+  if (drive?.title || drive?.id) {
+    return {
+      drive_file: String(drive.title || drive.id),
+      url: drive.id
+        ? `https://drive.google.com/open?id=${String(drive.id)}`
+        : null,
+    };
+  }
+
+  return null;
+}
+
+/** Mentions, links and attachments of a message whose annotations were pruned */
+function readMessageEntities(
+  item: Record<string, unknown>
+): Pick<ChatMessage, "mentions" | "links" | "attachments"> {
+  const mentions = new Set<string>();
+  const links = new Set<string>();
+  const attachments: MessageAttachment[] = [];
+
+  const annotations = Array.isArray(item.annotations)
+    ? (item.annotations as SlimAnnotation[])
+    : [];
+  for (const a of annotations) {
+    if ("mention" in a) mentions.add(a.mention);
+    else if ("drive_file" in a) {
+      attachments.push({ name: a.drive_file, type: null });
+      if (a.url) links.add(a.url);
+    } else links.add(a.url);
+  }
+
+  if (Array.isArray(item.attached_files)) {
+    for (const file of item.attached_files as Record<string, unknown>[]) {
+      const name = file?.original_name || file?.export_name;
+      if (name) attachments.push({ name: String(name), type: null });
+    }
+  }
+
+  return {
+    mentions: Array.from(mentions),
+    links: Array.from(links),
+    attachments,
+  };
+}
+
+export function extractMessagesFromJSON(
+  data: Record<string, unknown>,
+  dateOptions: DateParseOptions = {}
+): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+
+  // Handle the specific structure with messages array
+  if (data.messages && Array.isArray(data.messages)) {
+    data.messages.forEach((item: Record<string, unknown>) => {
+      const message = normalizeMessage(item, dateOptions);
+      if (message) messages.push(message);
+    });
+  } else if (Array.isArray(data)) {
+    // Direct array of messages
+    data.forEach((item) => {
+      const message = normalizeMessage(item, dateOptions);
+      if (message) messages.push(message);
+    });
+  } else if (data.conversations && Array.isArray(data.conversations)) {
+    // Object with conversations array
+    data.conversations.forEach((conv: Record<string, unknown>) => {
+      if (conv.messages && Array.isArray(conv.messages)) {
+        conv.messages.forEach((item: Record<string, unknown>) => {
+          const message = normalizeMessage(item, dateOptions);
+          if (message) messages.push(message);
+        });
+      }
+    });
+  } else {
+    // Try to extract from any nested structure
+    const extracted = extractFromNestedObject(data, dateOptions);
+    messages.push(...extracted);
+  }
+
+  return messages.filter((msg) => msg.text && msg.text.trim().length > 0);
+}
+
+/**
+ * Streaming counterpart of extractMessagesFromJSON for a root array or a
+ * top-level "messages" array; each element is pruned and normalized on its
+ * own, so the document is never held in memory.
+ */
+export async function* streamMessagesFromJSON(
+  input: StreamImportInput
+): AsyncGenerator<NormalizedMsg> {
+  for await (const item of streamJsonArrayItems(input.chunks())) {
+    pruneAnnotations(item);
+    const message = normalizeMessage(
+      item as Record<string, unknown>,
+      input.dateOptions
+    );
+    if (message && message.text.trim().length > 0) {
+      yield toNormalizedMsg(message);
+    }
+  }
+}
+
+/**
+ * Read a Google Takeout ZIP and return one entry per chat group.
+ * Only Groups/<id>/messages.json and Groups/<id>/group_info.json are
+ * decompressed; everything else in the archive (attachments, Users/) is skipped.
+ */
+export function extractTakeoutArchive(
+  data: Uint8Array,
+  dateOptions: DateParseOptions = {}
+): TakeoutGroup[] {
+  const entries = unzipSync(data, {
+    filter: (file) => takeoutEntryInfo(file.name) !== null,
+  });
+
+  const groups = new Map<
+    string,
+    { messagesJson?: string; groupInfoJson?: string }
+  >();
+  for (const [path, bytes] of Object.entries(entries)) {
+    const info = takeoutEntryInfo(path);
+    if (!info) continue;
+    const group = groups.get(info.groupId) ?? {};
+    if (info.kind === "messages") group.messagesJson = strFromU8(bytes);
+    else group.groupInfoJson = strFromU8(bytes);
+    groups.set(info.groupId, group);
+  }
+
+  const result: TakeoutGroup[] = [];
+  for (const [groupId, group] of groups) {
+    if (!group.messagesJson) continue;
+
+    let messagesData: Record<string, unknown>;
+    try {
+      messagesData = JSON.parse(group.messagesJson);
+    } catch (parseError) {
+      console.error(
+        `[v0] Invalid messages.json in group ${groupId}:`,
+        parseError
+      );
+      continue;
+    }
+    pruneAnnotations(messagesData);
+
+    const { name, members } = parseGroupInfo(group.groupInfoJson);
+    result.push({
+      id: groupId,
+      name,
+      members,
+      messages: extractMessagesFromJSON(messagesData, dateOptions),
+    });
+  }
+
+  return result.sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function takeoutEntryInfo(
+  path: string
+): { groupId: string; kind: "messages" | "group_info" } | null {
+  const match = path.match(
+    /(?:^|\/)Groups\/([^/]+)\/(messages|group_info)\.json$/
+  );
+  if (!match) return null;
+  return {
+    groupId: match[1],
+    kind: match[2] === "messages" ? "messages" : "group_info",
+  };
+}
+
+function parseGroupInfo(json: string | undefined): {
+  name: string | null;
+  members: TakeoutGroupMember[];
+} {
+  if (!json) return { name: null, members: [] };
+  try {
+    const info = JSON.parse(json) as Record<string, unknown>;
+    const members = Array.isArray(info.members)
+      ? (info.members as Record<string, unknown>[]).map((m) => ({
+          name: (m.name as string) || "Unknown",
+          email: (m.email as string) || "",
+          user_type: (m.user_type as string) || "Human",
+        }))
+      : [];
+    return { name: (info.name as string) || null, members };
+  } catch (parseError) {
+    console.error("[v0] Invalid group_info.json:", parseError);
+    return { name: null, members: [] };
+  }
+}
+
+function normalizeMessage(
+  item: Record<string, unknown>,
+  dateOptions: DateParseOptions
+): ChatMessage | null {
+  if (!item || typeof item !== "object") return null;
+
+  // Check if this is the new structure with creator object
+  if (item.creator && item.text && item.topic_id && item.message_id) {
+    const creator = item.creator as Record<string, unknown>;
+    return {
+      creator: {
+        name: (creator.name as string) || "Unknown",
+        email: (creator.email as string) || "",
+        user_type: (creator.user_type as string) || "Human",
+      },
+      created_date: parseChatDate(item.created_date as string, dateOptions),
+      raw_created_date: (item.created_date as string) || null,
+      text: item.text as string,
+      topic_id: item.topic_id as string,
+      message_id: item.message_id as string,
+      ...readMessageEntities(item),
+    };
+  }
+
+  // Fallback for other structures
+  const content =
+    item.content ||
+    item.message ||
+    item.text ||
+    item.body ||
+    item.msg ||
+    (typeof item === "string" ? item : null);
+  if (!content) return null;
+
+  const participant =
+    item.participant ||
+    item.sender ||
+    item.author ||
+    item.from ||
+    item.user ||
+    item.name ||
+    item.username ||
+    "Unknown";
+  const timestamp =
+    item.timestamp ||
+    item.date ||
+    item.time ||
+    item.created_at ||
+    item.sent_at ||
+    item.datetime ||
+    null;
+
+  return {
+    creator: {
+      name: String(participant),
+      email: "",
+      user_type: "Human",
+    },
+    created_date: parseChatDate(timestamp as string | number, dateOptions),
+    raw_created_date: timestamp ? String(timestamp) : null,
+    text: String(content),
+    topic_id: String(item.topic_id || item.thread_id || item.thread_ts || ""),
+    // Positional ids would look stable across uploads when they are not
+    message_id: (item.message_id as string) || "",
+    ...readMessageEntities(item),
+  };
+}
+
+function extractFromNestedObject(
+  obj: Record<string, unknown>,
+  dateOptions: DateParseOptions,
+  messages: ChatMessage[] = []
+): ChatMessage[] {
+  if (Array.isArray(obj)) {
+    obj.forEach((item) => {
+      const message = normalizeMessage(item, dateOptions);
+      if (message) messages.push(message);
+      else if (typeof item === "object") {
+        extractFromNestedObject(
+          item as Record<string, unknown>,
+          dateOptions,
+          messages
+        );
+      }
+    });
+  } else if (obj && typeof obj === "object") {
+    Object.values(obj).forEach((value) => {
+      if (Array.isArray(value)) {
+        extractFromNestedObject(
+          value as unknown as Record<string, unknown>,
+          dateOptions,
+          messages
+        );
+      } else if (value && typeof value === "object") {
+        extractFromNestedObject(
+          value as Record<string, unknown>,
+          dateOptions,
+          messages
+        );
+      }
+    });
+  }
+
+  return messages;
+}
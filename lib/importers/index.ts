@@ -0,0 +1,124 @@
+import type {
+  ChatImporter,
+  ImporterInfo,
+  ImportInput,
+  StreamImportInput,
+} from "@/lib/importers/types";
+import {
+  googleChatJsonImporter,
+  googleChatTakeoutImporter,
+} from "@/lib/importers/google-chat";
+import { slackExportImporter } from "@/lib/importers/slack";
+import { emailImporter } from "@/lib/importers/email";
+import { csvImporter } from "@/lib/importers/csv";
+import { telegramImporter } from "@/lib/importers/telegram";
+import { whatsappImporter } from "@/lib/importers/whatsapp";
+import { genericJsonImporter } from "@/lib/importers/generic-json";
+
+export {
+  COLUMN_ROLES,
+  createImportInput,
+  parseColumnMapping,
+} from "@/lib/importers/types";
+export type {
+  ChatImporter,
+  ColumnMapping,
+  ImportedSource,
+  ImporterInfo,
+  ImportInput,
+  StreamedSource,
+  StreamImportInput,
+} from "@/lib/importers/types";
+
+// Order only matters for ties: earlier importers win equal scores
+const importers: ChatImporter[] = [
+  googleChatTakeoutImporter,
+  slackExportImporter,
+  telegramImporter,
+  googleChatJsonImporter,
+  whatsappImporter,
+  emailImporter,
+  csvImporter,
+  genericJsonImporter,
+];
+
+export function registerImporter(importer: ChatImporter): void {
+  const id = importer.describe().id;
+  if (importers.some((i) => i.describe().id === id)) {
+    throw new Error(`Importer already registered: ${id}`);
+  }
+  importers.push(importer);
+}
+
+export function listImporters(): ImporterInfo[] {
+  return importers.map((i) => i.describe());
+}
+
+export function getImporter(id: string): ChatImporter | undefined {
+  return importers.find((i) => i.describe().id === id);
+}
+
+export interface DetectionResult {
+  importer: ChatImporter | null;
+  scores: Array<{ id: string; score: number }>;
+}
+
+/** Score every registered importer and pick the most confident one */
+export function detectImporter(input: ImportInput): DetectionResult {
+  const scores = importers.map((importer) => {
+    let score = 0;
+    try {
+      score = importer.detect(input);
+    } catch (error) {
+      console.error(
+        `[v0] Importer ${importer.describe().id} detect failed:`,
+        error
+      );
+    }
+    return { importer, score };
+  });
+
+  let best: { importer: ChatImporter; score: number } | null = null;
+  for (const s of scores) {
+    if (s.score > 0 && (!best || s.score > best.score)) best = s;
+  }
+
+  return {
+    importer: best?.importer ?? null,
+    scores: scores
+      .map((s) => ({ id: s.importer.describe().id, score: s.score }))
+      .sort((a, b) => b.score - a.score),
+  };
+}
+
+/** detectImporter for large uploads: only importers that can stream compete */
+export function detectStreamingImporter(
+  input: StreamImportInput
+): DetectionResult {
+  const scores = importers
+    .filter((importer) => importer.detectStream && importer.parseStream)
+    .map((importer) => {
+      let score = 0;
+      try {
+        score = importer.detectStream!(input);
+      } catch (error) {
+        console.error(
+          `[v0] Importer ${importer.describe().id} stream detect failed:`,
+          error
+        );
+      }
+      return { importer, score };
+    });
+
+  let best: { importer: ChatImporter; score: number } | null = null;
+  for (const s of scores) {
+    if (s.score > 0 && (!best || s.score > best.score)) best = s;
+  }
+
+  return {
+    importer: best?.importer ?? null,
+    scores: scores
+      .map((s) => ({ id: s.importer.describe().id, score: s.score }))
+      .sort((a, b) => b.score - a.score),
+  };
+}
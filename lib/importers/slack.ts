@@ -0,0 +1,286 @@
+import { strFromU8, unzipSync } from "fflate";
+import type { MessageAttachment, NormalizedMsg } from "@/lib/rag";
+import type { ChatImporter } from "@/lib/importers/types";
+
+export interface SlackChannel {
+  id: string;
+  name: string;
+  messages: NormalizedMsg[];
+}
+
+interface SlackUser {
+  name: string;
+  email: string;
+  isBot: boolean;
+}
+
+// Housekeeping events that carry no conversation content
+const SKIPPED_SUBTYPES = new Set([
+  "channel_join",
+  "channel_leave",
+  "channel_topic",
+  "channel_purpose",
+  "channel_name",
+  "channel_archive",
+  "channel_unarchive",
+  "group_join",
+  "group_leave",
+  "pinned_item",
+  "unpinned_item",
+]);
+
+// Channel listings present in the root of a workspace export
+const CHANNEL_LISTINGS = [
+  "channels.json",
+  "groups.json",
+  "mpims.json",
+  "dms.json",
+];
+
+/**
+ * A Slack workspace export is a ZIP with users.json / channels.json at the root
+ * and one directory of daily YYYY-MM-DD.json files per channel. Exports that
+ * were unpacked and zipped again sit one folder down; see exportRoot.
+ */
+export const slackExportImporter: ChatImporter = {
+  describe: () => ({
+    id: "slack-export",
+    name: "Slack workspace export",
+    description:
+      "A Slack export ZIP (users.json, channels.json, per-channel daily files); every channel becomes its own source.",
+    extensions: [".zip"],
+  }),
+  detect(input) {
+    const names = input.zipEntryNames();
+    if (!names) return 0;
+    return exportRoot(names) !== null ? 0.95 : 0;
+  },
+  parse(input) {
+    const root = exportRoot(input.zipEntryNames() ?? []) ?? "";
+    return extractSlackArchive(input.bytes, root).map((channel) => ({
+      filename: `${input.name}/${channel.name}`,
+      sourceKey: `slack:${channel.id}`,
+      label: `#${channel.name}`,
+      metadata: {
+        source: "slack_export",
+        archive: input.name,
+        channel_id: channel.id,
+        channel_name: channel.name,
+      },
+      messages: channel.messages,
+    }));
+  },
+};
+
+/**
+ * Folder of the export within the archive: "" when users.json and
+ * channels.json are at the root, "<folder>/" when the whole export folder
+ * was zipped. Null when neither layout matches.
+ */
+export function exportRoot(names: string[]): string | null {
+  const roots = names
+    .filter(
+      (name) =>
+        /^(?:[^/]+\/)?users\.json$/.test(name) && !name.startsWith("__MACOSX/")
+    )
+    .map((name) => name.slice(0, -"users.json".length))
+    .sort((a, b) => a.length - b.length);
+  return roots.find((root) => names.includes(`${root}channels.json`)) ?? null;
+}
+
+/** Channels of an export whose files sit under `root` (see exportRoot) */
+export function extractSlackArchive(
+  data: Uint8Array,
+  root = ""
+): SlackChannel[] {
+  const unzipped = unzipSync(data, {
+    filter: (file) => {
+      if (!file.name.startsWith(root)) return false;
+      const name = file.name.slice(root.length);
+      return (
+        name === "users.json" ||
+        CHANNEL_LISTINGS.includes(name) ||
+        dailyFileInfo(name) !== null
+      );
+    },
+  });
+  // Paths relative to the export root from here on
+  const entries: Record<string, Uint8Array> = {};
+  for (const [path, bytes] of Object.entries(unzipped)) {
+    entries[path.slice(root.length)] = bytes;
+  }
+
+  const readJson = (path: string): unknown => {
+    const bytes = entries[path];
+    if (!bytes) return null;
+    try {
+      return JSON.parse(strFromU8(bytes));
+    } catch (parseError) {
+      console.error(`[v0] Invalid JSON in Slack export ${path}:`, parseError);
+      return null;
+    }
+  };
+
+  const users = parseSlackUsers(readJson("users.json"));
+
+  // Directory name -> channel id; DMs and group DMs are exported under their id
+  const channelIds = new Map<string, string>();
+  for (const listing of CHANNEL_LISTINGS) {
+    const rows = readJson(listing);
+    if (!Array.isArray(rows)) continue;
+    for (const row of rows as Record<string, unknown>[]) {
+      const id = row.id as string | undefined;
+      if (!id) continue;
+      channelIds.set((row.name as string) || id, id);
+    }
+  }
+
+  const rawByChannel = new Map<string, Record<string, unknown>[]>();
+  for (const path of Object.keys(entries).sort()) {
+    const info = dailyFileInfo(path);
+    if (!info) continue;
+    const day = readJson(path);
+    if (!Array.isArray(day)) continue;
+    const list = rawByChannel.get(info.channel) ?? [];
+    list.push(...(day as Record<string, unknown>[]));
+    rawByChannel.set(info.channel, list);
+  }
+
+  const channels: SlackChannel[] = [];
+  for (const [channelName, raw] of rawByChannel) {
+    const messages = raw
+      .filter(
+        (m) =>
+          m &&
+          m.type === "message" &&
+          typeof m.ts === "string" &&
+          !SKIPPED_SUBTYPES.has(m.subtype as string)
+      )
+      .sort((a, b) => parseFloat(a.ts as string) - parseFloat(b.ts as string))
+      .map((m) => normalizeSlackMessage(m, users))
+      .filter((m) => m.content.trim().length > 0);
+
+    channels.push({
+      id: channelIds.get(channelName) ?? channelName,
+      name: channelName,
+      messages,
+    });
+  }
+
+  return channels.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function slackTsToISO(ts: string | undefined | null): string | null {
+  if (!ts) return null;
+  const seconds = parseFloat(ts);
+  if (!Number.isFinite(seconds)) return null;
+  return new Date(Math.round(seconds * 1000)).toISOString();
+}
+
+function dailyFileInfo(path: string): { channel: string } | null {
+  const match = path.match(/^([^/]+)\/\d{4}-\d{2}-\d{2}\.json$/);
+  return match ? { channel: match[1] } : null;
+}
+
+function parseSlackUsers(rows: unknown): Map<string, SlackUser> {
+  const users = new Map<string, SlackUser>();
+  if (!Array.isArray(rows)) return users;
+  for (const row of rows as Record<string, unknown>[]) {
+    const id = row.id as string | undefined;
+    if (!id) continue;
+    const profile = (row.profile as Record<string, unknown>) || {};
+    users.set(id, {
+      name:
+        (profile.display_name as string) ||
+        (profile.real_name as string) ||
+        (row.real_name as string) ||
+        (row.name as string) ||
+        id,
+      email: (profile.email as string) || "",
+      isBot: Boolean(row.is_bot),
+    });
+  }
+  return users;
+}
+
+function normalizeSlackMessage(
+  m: Record<string, unknown>,
+  users: Map<string, SlackUser>
+): NormalizedMsg {
+  const userId = m.user as string | undefined;
+  const user = userId ? users.get(userId) : undefined;
+  const profile = (m.user_profile as Record<string, unknown>) || {};
+  const participant =
+    user?.name ||
+    (profile.display_name as string) ||
+    (profile.real_name as string) ||
+    (m.username as string) ||
+    userId ||
+    "Unknown";
+
+  const threadTs = m.thread_ts as string | undefined;
+  const text = String(m.text ?? "");
+  const mentions = new Set<string>();
+  for (const [, id, label] of text.matchAll(
+    /<@([UW][A-Z0-9]+)(?:\|([^>]+))?>/g
+  )) {
+    mentions.add(users.get(id)?.name || label || id);
+  }
+  // Link unfurls; links typed into the text are picked up during chunking
+  const links = new Set<string>();
+  for (const a of asRecords(m.attachments)) {
+    const url = a.from_url || a.original_url || a.title_link;
+    if (typeof url === "string") links.add(url);
+  }
+  const attachments: MessageAttachment[] = asRecords(m.files)
+    .filter((f) => f.name || f.title)
+    .map((f) => ({
+      name: String(f.name || f.title),
+      type: (f.mimetype as string) || null,
+    }));
+
+  return {
+    content: resolveSlackMarkup(text, users),
+    timestamp: slackTsToISO(m.ts as string),
+    rawTimestamp: m.ts as string,
+    participant,
+    email: user?.email || undefined,
+    threadId: threadTs || undefined,
+    // ts is unique within a channel
+    messageId: m.ts as string,
+    mentions: mentions.size ? Array.from(mentions) : undefined,
+    links: links.size ? Array.from(links) : undefined,
+    attachments: attachments.length ? attachments : undefined,
+  };
+}
+
+function asRecords(value: unknown): Record<string, unknown>[] {
+  return Array.isArray(value)
+    ? value.filter(
+        (v): v is Record<string, unknown> => !!v && typeof v === "object"
+      )
+    : [];
+}
+
+/**
+ * Turn Slack mrkdwn references into plain text:
+ * <@U123> -> @Dana, <#C123|general> -> #general, <!here> -> @here,
+ * <https://x|label> -> label (https://x)
+ */
+function resolveSlackMarkup(
+  text: string,
+  users: Map<string, SlackUser>
+): string {
+  return text
+    .replace(/<@([UW][A-Z0-9]+)(?:\|([^>]+))?>/g, (_, id, label) => {
+      return `@${users.get(id)?.name || label || id}`;
+    })
+    .replace(/<#[A-Z0-9]+\|([^>]+)>/g, "#$1")
+    .replace(/<!(here|channel|everyone)(?:\|[^>]*)?>/g, "@$1")
+    .replace(/<!subteam\^[A-Z0-9]+\|([^>]+)>/g, "$1")
+    .replace(/<((?:https?|mailto):[^|>]+)\|([^>]+)>/g, "$2 ($1)")
+    .replace(/<((?:https?|mailto):[^>]+)>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
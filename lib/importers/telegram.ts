@@ -0,0 +1,150 @@
+import { parseChatDate, type DateParseOptions } from "@/lib/dates";
+import type { MessageAttachment, NormalizedMsg } from "@/lib/rag";
+import type { ChatImporter } from "@/lib/importers/types";
+
+interface TelegramChat {
+  id?: number | string;
+  name?: string;
+  type?: string;
+  messages: Record<string, unknown>[];
+}
+
+/**
+ * Telegram Desktop "Export chat history" (machine-readable JSON): either a
+ * single chat's result.json or a full account export with chats.list. Every
+ * chat becomes its own source.
+ */
+export const telegramImporter: ChatImporter = {
+  describe: () => ({
+    id: "telegram-json",
+    name: "Telegram Desktop export",
+    description:
+      "A Telegram Desktop result.json (single chat or full account export); service messages are skipped.",
+    extensions: [".json"],
+  }),
+  detect(input) {
+    const chats = telegramChats(input.json());
+    const sample = chats.flatMap((c) => c.messages.slice(0, 20)).slice(0, 20);
+    const matches = sample.filter(
+      (m) =>
+        m &&
+        typeof m === "object" &&
+        typeof m.id === "number" &&
+        typeof m.type === "string" &&
+        ("date_unixtime" in m || "date" in m)
+    ).length;
+    return sample.length > 0 && matches / sample.length >= 0.5 ? 0.95 : 0;
+  },
+  parse(input) {
+    return telegramChats(input.json()).map((chat) => {
+      const label = chat.name || (chat.id ? String(chat.id) : null);
+      return {
+        filename: chat.id ? `${input.name}/${chat.id}` : input.name,
+        sourceKey: chat.id ? `telegram:${chat.id}` : null,
+        label,
+        metadata: {
+          source: "telegram_json",
+          archive: input.name,
+          chat_id: chat.id ?? null,
+          chat_name: chat.name ?? null,
+          chat_type: chat.type ?? null,
+        },
+        messages: chat.messages
+          .map((m) => normalizeTelegramMessage(m, input.dateOptions))
+          .filter((m): m is NormalizedMsg => m !== null),
+      };
+    });
+  },
+};
+
+function telegramChats(data: unknown): TelegramChat[] {
+  if (!data || typeof data !== "object") return [];
+  const root = data as Record<string, unknown>;
+  if (Array.isArray(root.messages)) return [root as unknown as TelegramChat];
+
+  const list = (root.chats as Record<string, unknown> | undefined)?.list;
+  if (!Array.isArray(list)) return [];
+  return (list as TelegramChat[]).filter(
+    (c) => c && Array.isArray(c.messages) && c.messages.length > 0
+  );
+}
+
+function normalizeTelegramMessage(
+  m: Record<string, unknown>,
+  dateOptions: DateParseOptions
+): NormalizedMsg | null {
+  // "service" entries are joins, pins, calls, title changes...
+  if (m.type !== "message") return null;
+
+  const { text, mentions, links } = flattenText(m.text);
+  const attachments: MessageAttachment[] = [];
+  if (typeof m.photo === "string") {
+    attachments.push({
+      name: fileName(m.photo, "photo.jpg"),
+      type: "image/jpeg",
+    });
+  }
+  if (typeof m.file === "string" && m.media_type !== "sticker") {
+    attachments.push({
+      name: (m.file_name as string) || fileName(m.file, "file"),
+      type: (m.mime_type as string) || null,
+    });
+  }
+  if (!text.trim() && attachments.length === 0) return null;
+
+  // date_unixtime is exact; date is wall-clock time of the exporting machine
+  const rawTimestamp = (m.date_unixtime as string) || (m.date as string);
+  return {
+    content:
+      text.trim() ||
+      attachments.map((a) => `[Attachment: ${a.name}]`).join(" "),
+    timestamp: parseChatDate(rawTimestamp, dateOptions),
+    rawTimestamp,
+    participant: (m.from as string) || (m.author as string) || "Unknown",
+    messageId: String(m.id),
+    mentions: mentions.length ? mentions : undefined,
+    links: links.length ? links : undefined,
+    attachments: attachments.length ? attachments : undefined,
+  };
+}
+
+/** Telegram stores formatted text as a mix of strings and entity objects */
+function flattenText(value: unknown): {
+  text: string;
+  mentions: string[];
+  links: string[];
+} {
+  if (!Array.isArray(value)) {
+    return {
+      text: typeof value === "string" ? value : "",
+      mentions: [],
+      links: [],
+    };
+  }
+
+  const mentions = new Set<string>();
+  const links = new Set<string>();
+  let text = "";
+  for (const part of value) {
+    if (typeof part === "string") {
+      text += part;
+      continue;
+    }
+    if (!part || typeof part !== "object") continue;
+    const entity = part as Record<string, unknown>;
+    const entityText = String(entity.text ?? "");
+    text += entityText;
+    if (entity.type === "mention" || entity.type === "mention_name") {
+      mentions.add(entityText.replace(/^@/, ""));
+    } else if (entity.type === "text_link" && typeof entity.href === "string") {
+      links.add(entity.href);
+    }
+  }
+  return { text, mentions: Array.from(mentions), links: Array.from(links) };
+}
+
+// Media left out of the export is recorded as "(File not included. ...)"
+function fileName(path: string, fallback: string): string {
+  if (path.startsWith("(")) return fallback;
+  return path.split("/").pop() || fallback;
+}
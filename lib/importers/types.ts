@@ -0,0 +1,182 @@
+import { strFromU8, unzipSync } from "fflate";
+import type { DateParseOptions } from "@/lib/dates";
+import type { NormalizedMsg } from "@/lib/rag";
+
+export interface ImporterInfo {
+  id: string;
+  name: string;
+  description: string;
+  // File extensions the importer accepts, including the dot
+  extensions: string[];
+}
+
+/** One logical conversation (file, group, channel) produced by an importer */
+export interface ImportedSource {
+  // Stored as chat_chunks.original_filename
+  filename: string;
+  // Stable identity across uploads (space/channel id); null falls back to
+  // the filename and the first message (see sourceKeyFor)
+  sourceKey: string | null;
+  // Human-readable name (Takeout group name, Slack channel) when there is one
+  label: string | null;
+  metadata: Record<string, unknown>;
+  messages: NormalizedMsg[];
+}
+
+// Message fields a tabular export's columns can be mapped to
+export const COLUMN_ROLES = [
+  "text",
+  "participant",
+  "email",
+  "timestamp",
+  "thread_id",
+  "message_id",
+] as const;
+
+/** Column header name per message field, e.g. { text: "Message", participant: "Author" } */
+export type ColumnMapping = Partial<
+  Record<(typeof COLUMN_ROLES)[number], string>
+>;
+
+/** Keep only known roles with non-empty header names; null if nothing is left */
+export function parseColumnMapping(value: unknown): ColumnMapping | null {
+  if (!value || typeof value !== "object") return null;
+  const mapping: ColumnMapping = {};
+  for (const role of COLUMN_ROLES) {
+    const column = (value as Record<string, unknown>)[role];
+    if (typeof column === "string" && column.trim()) mapping[role] = column;
+  }
+  return Object.keys(mapping).length ? mapping : null;
+}
+
+export interface ImportSettings {
+  // Defaults for timestamps without an explicit zone
+  dateOptions?: DateParseOptions;
+  // Uploader's column choice for tabular formats (CSV/TSV)
+  columnMapping?: ColumnMapping | null;
+}
+
+/**
+ * Uploaded file with lazily decoded views, so several importers can probe the
+ * same upload without each one re-reading or re-parsing it.
+ */
+export interface ImportInput {
+  name: string;
+  bytes: Uint8Array;
+  extension: string;
+  // Per-upload defaults for timestamps without an explicit zone
+  dateOptions: DateParseOptions;
+  columnMapping: ColumnMapping | null;
+  text(): string;
+  // Parsed JSON, or undefined when the file is not valid JSON. Only files
+  // starting with { or [ are decoded and parsed at all
+  json(): unknown;
+  // Entry names when the file is a ZIP archive, otherwise null
+  zipEntryNames(): string[] | null;
+}
+
+/**
+ * Upload too large to load whole. Importers that support it read messages
+ * incrementally, so memory stays flat regardless of the file size.
+ */
+export interface StreamImportInput {
+  name: string;
+  extension: string;
+  dateOptions: DateParseOptions;
+  // Start of the file, decoded, for detection
+  head: string;
+  // A fresh pass over the file's bytes on every call
+  chunks(): AsyncIterable<Uint8Array>;
+}
+
+/** ImportedSource whose messages are produced while the file is read */
+export interface StreamedSource extends Omit<ImportedSource, "messages"> {
+  // Re-reads the upload on every call, so it can be iterated more than once
+  messages(): AsyncIterable<NormalizedMsg>;
+}
+
+export interface ChatImporter {
+  describe(): ImporterInfo;
+  // Confidence in [0, 1] that this importer understands the input; 0 = no
+  detect(input: ImportInput): number;
+  // Format details shown in the import preview, e.g. detected CSV columns
+  inspect?(input: ImportInput): Record<string, unknown>;
+  parse(input: ImportInput): ImportedSource[];
+  // Streaming variants for large uploads; importers without them only
+  // handle files under the streaming threshold
+  detectStream?(input: StreamImportInput): number;
+  parseStream?(input: StreamImportInput): StreamedSource;
+}
+
+export function createImportInput(
+  name: string,
+  bytes: Uint8Array,
+  settings: ImportSettings = {}
+): ImportInput {
+  const lower = name.toLowerCase();
+  const dot = lower.lastIndexOf(".");
+  let text: string | undefined;
+  let json: { value: unknown } | undefined;
+  let zipNames: { value: string[] | null } | undefined;
+
+  const input: ImportInput = {
+    name,
+    bytes,
+    extension: dot >= 0 ? lower.slice(dot) : "",
+    dateOptions: settings.dateOptions ?? {},
+    columnMapping: settings.columnMapping ?? null,
+    text() {
+      if (text === undefined) text = strFromU8(bytes);
+      return text;
+    },
+    json() {
+      if (!json) {
+        json = { value: undefined };
+        if (startsLikeJson(bytes)) {
+          try {
+            json = { value: JSON.parse(input.text()) };
+          } catch {
+            // Not JSON after all
+          }
+        }
+      }
+      return json.value;
+    },
+    zipEntryNames() {
+      if (!zipNames) {
+        // Local file header signature "PK\x03\x04"
+        const isZip =
+          bytes.length > 4 &&
+          bytes[0] === 0x50 &&
+          bytes[1] === 0x4b &&
+          bytes[2] === 0x03 &&
+          bytes[3] === 0x04;
+        const names: string[] = [];
+        if (isZip) {
+          try {
+            unzipSync(bytes, {
+              filter: (file) => {
+                names.push(file.name);
+                return false;
+              },
+            });
+          } catch (zipError) {
+            console.error("[v0] ZIP read error:", zipError);
+          }
+        }
+        zipNames = { value: isZip ? names : null };
+      }
+      return zipNames.value;
+    },
+  };
+  return input;
+}
+
+// First byte after whitespace and a UTF-8 BOM is { or [: rules out ZIP, CSV
+// and mbox uploads without decoding them
+function startsLikeJson(bytes: Uint8Array): boolean {
+  let i = 0;
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) i = 3;
+  while (i < bytes.length && [0x20, 0x09, 0x0a, 0x0d].includes(bytes[i])) i++;
+  return bytes[i] === 0x7b || bytes[i] === 0x5b;
+}
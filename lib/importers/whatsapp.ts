@@ -0,0 +1,198 @@
+import { strFromU8, unzipSync } from "fflate";
+import { parseChatDate, type DateParseOptions } from "@/lib/dates";
+import type { MessageAttachment, NormalizedMsg } from "@/lib/rag";
+import type { ChatImporter } from "@/lib/importers/types";
+
+// "[12/09/2013, 15:50:11] Dana: text" (iOS)
+const IOS_LINE =
+  /^\[(\d{1,4}[./-]\d{1,2}[./-]\d{1,4}),?\s+(\d{1,2}[:.]\d{2}(?:[:.]\d{2})?(?:\s?[ap]\.?\s?m\.?)?)\]\s+(.*)$/i;
+// "12/09/2013, 15:50 - Dana: text" (Android)
+const ANDROID_LINE =
+  /^(\d{1,4}[./-]\d{1,2}[./-]\d{1,4}),?\s+(\d{1,2}[:.]\d{2}(?:[:.]\d{2})?(?:\s?[ap]\.?\s?m\.?)?)\s+[-\u2013]\s+(.*)$/i;
+
+// Notices WhatsApp writes into the chat as if someone had said them
+const SYSTEM_CONTENT = [
+  /end-to-end encrypted/i,
+  /^<media omitted>$/i,
+  /^(image|video|audio|sticker|gif|document|contact card) omitted$/i,
+  /^(this message was deleted|you deleted this message)\.?$/i,
+  /^missed (voice|video) call/i,
+  /^null$/,
+];
+
+const ATTACHMENT_PATTERNS = [
+  // iOS: "<attached: 00000012-PHOTO-2020-03-01-12-00-00.jpg>"
+  /<attached:\s*([^>]+)>/i,
+  // Android: "IMG-20200301-WA0001.jpg (file attached)"
+  /^(.+?\.[A-Za-z0-9]{1,8}) \(file attached\)/i,
+];
+
+/**
+ * WhatsApp "Export chat" output: a .txt (Android, or iOS without media) or a
+ * ZIP holding _chat.txt plus the media files. The whole file is one source.
+ */
+export const whatsappImporter: ChatImporter = {
+  describe: () => ({
+    id: "whatsapp-txt",
+    name: "WhatsApp chat export",
+    description:
+      'A WhatsApp "Export chat" .txt, or the ZIP with _chat.txt; system notices and omitted media are skipped.',
+    extensions: [".txt", ".zip"],
+  }),
+  detect(input) {
+    const names = input.zipEntryNames();
+    if (names) return findChatEntry(names) ? 0.9 : 0;
+    if (input.extension !== ".txt") return 0;
+    const lines = input
+      .text()
+      .split(/\r?\n/)
+      .map(cleanLine)
+      .filter((l) => l.trim())
+      .slice(0, 20);
+    const matches = lines.filter(
+      (l) => IOS_LINE.test(l) || ANDROID_LINE.test(l)
+    ).length;
+    return lines.length > 0 && matches / lines.length >= 0.5 ? 0.9 : 0;
+  },
+  parse(input) {
+    let text: string;
+    const names = input.zipEntryNames();
+    if (names) {
+      const entry = findChatEntry(names);
+      if (!entry) throw new Error("No chat .txt found in the archive");
+      const files = unzipSync(input.bytes, {
+        filter: (file) => file.name === entry,
+      });
+      text = strFromU8(files[entry]);
+    } else {
+      text = input.text();
+    }
+
+    return [
+      {
+        filename: input.name,
+        sourceKey: null,
+        label: chatLabel(input.name),
+        metadata: { source: "whatsapp_txt" },
+        messages: parseWhatsAppText(text, input.dateOptions),
+      },
+    ];
+  },
+};
+
+function findChatEntry(names: string[]): string | undefined {
+  return names.find((n) =>
+    /(?:^|\/)(?:_chat|WhatsApp Chat[^/]*)\.txt$/i.test(n)
+  );
+}
+
+// "WhatsApp Chat with Dana.txt" -> "Dana"
+function chatLabel(filename: string): string | null {
+  const base = (filename.split("/").pop() ?? filename).replace(
+    /\s*\(\d+\)(?=\.[^.]+$)|\.[^.]+$/g,
+    ""
+  );
+  const match = base.match(/^WhatsApp Chat (?:with|-)\s*(.+)$/i);
+  return match ? match[1].trim() : base || null;
+}
+
+// Exports sprinkle bidi marks and non-breaking spaces around dates and names
+function cleanLine(line: string): string {
+  return line
+    .replace(/^\uFEFF/, "")
+    .replace(/[\u202F\u00A0]/g, " ")
+    .replace(/^[\u200E\u200F]+/, "");
+}
+
+interface RawMessage {
+  date: string;
+  time: string;
+  sender: string;
+  lines: string[];
+  // iOS prefixes system notices and media placeholders with a bidi mark
+  marked: boolean;
+}
+
+/**
+ * Parse an exported chat. Lines that do not start with a timestamp continue
+ * the previous message. Day/month order is inferred from the dates in the
+ * file when any of them is unambiguous.
+ */
+export function parseWhatsAppText(
+  text: string,
+  dateOptions: DateParseOptions = {}
+): NormalizedMsg[] {
+  const raw: RawMessage[] = [];
+  let current: RawMessage | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = cleanLine(rawLine);
+    const header = line.match(IOS_LINE) ?? line.match(ANDROID_LINE);
+    if (!header) {
+      if (current) current.lines.push(rawLine.replace(/[\u200E\u200F]/g, ""));
+      continue;
+    }
+
+    const [, date, time, rest] = header;
+    const separator = rest.indexOf(": ");
+    // Android writes notices without a sender ("Dana added Sam")
+    if (separator < 0 && !rest.endsWith(":")) {
+      current = null;
+      continue;
+    }
+    const sender = separator < 0 ? rest.slice(0, -1) : rest.slice(0, separator);
+    const body = separator < 0 ? "" : rest.slice(separator + 2);
+    current = {
+      date,
+      time,
+      sender: sender.trim(),
+      lines: [body.replace(/^[\u200E\u200F]+/, "")],
+      marked: /^[\u200E\u200F]/.test(body),
+    };
+    raw.push(current);
+  }
+
+  const dayFirst =
+    inferDayFirst(raw.map((m) => m.date)) ?? dateOptions.dayFirst;
+  const messages: NormalizedMsg[] = [];
+  for (const m of raw) {
+    let content = m.lines
+      .join("\n")
+      .replace(/\s*<This message was edited>$/i, "")
+      .trim();
+
+    const attachments: MessageAttachment[] = [];
+    for (const pattern of ATTACHMENT_PATTERNS) {
+      const match = content.match(pattern);
+      if (!match) continue;
+      attachments.push({ name: match[1].trim(), type: null });
+      content = content.replace(match[0], "").trim();
+    }
+    if (attachments.length === 0) {
+      if (m.marked || SYSTEM_CONTENT.some((p) => p.test(content))) continue;
+    }
+    if (!content && attachments.length === 0) continue;
+
+    const rawTimestamp = `${m.date} ${m.time}`;
+    messages.push({
+      content:
+        content || attachments.map((a) => `[Attachment: ${a.name}]`).join(" "),
+      timestamp: parseChatDate(rawTimestamp, { ...dateOptions, dayFirst }),
+      rawTimestamp,
+      participant: m.sender || "Unknown",
+      attachments: attachments.length ? attachments : undefined,
+    });
+  }
+  return messages;
+}
+
+// A first component above 12 means dd/mm, a second one above 12 means mm/dd
+function inferDayFirst(dates: string[]): boolean | undefined {
+  for (const date of dates) {
+    const parts = date.split(/[./-]/).map((p) => parseInt(p, 10));
+    if (parts[0] > 31) return undefined; // year first, not ambiguous
+    if (parts[0] > 12) return true;
+    if (parts[1] > 12) return false;
+  }
+  return undefined;
+}
@@ -0,0 +1,672 @@
+import { createClient } from "@/lib/supabase/server";
+import {
+  createChunkWindow,
+  embedMissingChunks,
+  mergeEmbeddingThroughput,
+  upsertChunks,
+  windowMessagesIntoChunks,
+  type ChunkInput,
+  type EmbeddingThroughput,
+  type NormalizedMsg,
+} from "@/lib/rag";
+import {
+  chunkWindowOptions,
+  collectDateParseFailures,
+  createDateFailureCollector,
+  openStreamedUpload,
+  parseUpload,
+  STREAMING_THRESHOLD_BYTES,
+  type IngestOptions,
+  type StreamedUpload,
+} from "@/lib/ingest";
+import { readableStreamChunks } from "@/lib/json-stream";
+import type { NoiseCounts } from "@/lib/noise-filter";
+import { queueSummaryBuild, runSummaryBuild } from "@/lib/summary-builds";
+import {
+  DEFAULT_REDACTION_CONFIG,
+  mergeRedactionCounts,
+  redactMessages,
+  type RedactionConfig,
+  type RedactionCounts,
+} from "@/lib/redaction";
+import {
+  getChatSource,
+  getChatSourceByKey,
+  isSameSource,
+  messagesAfterHighWaterMark,
+  recordRedactionCounts,
+  sourceKeyFor,
+  streamedSourceKeyFor,
+  streamHighWaterFilter,
+  updateHighWaterMark,
+  upsertChatSource,
+} from "@/lib/sources";
+
+export type IngestJobStatus =
+  "queued" | "parsing" | "chunking" | "embedding" | "done" | "failed";
+
+export interface IngestSourceResult {
+  filename: string;
+  label: string | null;
+  total_messages: number;
+  // Messages after the source's high-water mark, i.e. actually chunked
+  new_messages: number;
+  // PII found by the redaction stage, by detector id
+  redacted: RedactionCounts;
+  // Messages left out entirely in "drop" redaction mode
+  dropped_messages: number;
+  // Messages the noise filter left out, by rule id (absent on older jobs)
+  noise_filtered?: NoiseCounts;
+  chunks_generated: number;
+  chunks_inserted: number;
+}
+
+export interface IngestJob {
+  id: string;
+  user_id: string;
+  status: IngestJobStatus;
+  filename: string;
+  storage_path: string;
+  // Upload size; large uploads are parsed as a stream (0 for older jobs)
+  size_bytes: number;
+  importer: string | null;
+  // Set for re-index jobs: only this source is chunked and embedded
+  target_source_id: string | null;
+  // Empty for jobs created before options existed
+  options: Partial<IngestOptions>;
+  messages_total: number;
+  sources_total: number;
+  sources_done: number;
+  chunks_total: number;
+  chunks_inserted: number;
+  chunks_embedded: number;
+  result: {
+    sources?: IngestSourceResult[];
+    date_parse_failures?: { count: number; samples: string[] };
+    // Chunked and embedded in batches while the upload was read
+    streamed?: boolean;
+    // Embedding speed, summed over every embedding pass of the job
+    embedding?: EmbeddingThroughput;
+  } & Record<string, unknown>;
+  error: string | null;
+  attempts: number;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+export const UPLOAD_BUCKET = "chat-uploads";
+// A worker renews its lease on every progress update, and on a timer between
+// them for at most LEASE_MAX_SILENT_MS; an expired lease means the worker
+// died (timeout, deploy, crash) or is stuck, and the job can be picked up
+// again.
+const LEASE_SECONDS = 120;
+const LEASE_RENEW_MS = (LEASE_SECONDS / 3) * 1000;
+const LEASE_MAX_SILENT_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+// Streamed uploads store and embed chunks in batches of this size
+const STREAM_CHUNK_BATCH = 200;
+// Lease renewal interval (in messages) while streaming without writes
+const STREAM_HEARTBEAT_MESSAGES = 10_000;
+
+export function isTerminal(status: IngestJobStatus): boolean {
+  return status === "done" || status === "failed";
+}
+
+export function isStale(job: IngestJob): boolean {
+  return (
+    !isTerminal(job.status) &&
+    (!job.locked_until || new Date(job.locked_until).getTime() < Date.now())
+  );
+}
+
+/**
+ * Store the raw upload and queue a job for it. The body is piped to storage
+ * as it arrives, never held whole.
+ */
+export async function createIngestJob(
+  userId: string,
+  upload: { body: ReadableStream<Uint8Array>; size: number },
+  filename: string,
+  importerId: string | null,
+  options: IngestOptions
+): Promise<IngestJob> {
+  const supabase = await createClient();
+  const id = crypto.randomUUID();
+  const storagePath = `${userId}/${id}/${filename.replace(/[^\w.-]+/g, "_")}`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(UPLOAD_BUCKET)
+    .upload(storagePath, upload.body, {
+      contentType: "application/octet-stream",
+      // Required by fetch for a streamed request body
+      duplex: "half",
+    });
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from("ingest_jobs")
+    .insert({
+      id,
+      user_id: userId,
+      status: "queued",
+      filename,
+      storage_path: storagePath,
+      size_bytes: upload.size,
+      importer: importerId,
+      options,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as IngestJob;
+}
+
+export async function getIngestJob(jobId: string): Promise<IngestJob | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("ingest_jobs")
+    .select("*")
+    .eq("id", jobId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as IngestJob) ?? null;
+}
+
+export async function listIngestJobs(
+  userId: string,
+  limit = 20
+): Promise<IngestJob[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("ingest_jobs")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data as IngestJob[]) ?? [];
+}
+
+/**
+ * Process a job from wherever it left off. Every stage is idempotent: chunks
+ * are upserted by hash, sources already chunked are skipped via sources_done,
+ * and embedding only touches rows that still have no vector. Returns without
+ * doing anything if another worker holds the lease. Never rejects: it runs
+ * under after(), and a job it could not even record a failure for is picked
+ * up again once its lease expires.
+ */
+export async function runIngestJob(jobId: string): Promise<void> {
+  try {
+    await processIngestJob(jobId);
+  } catch (error) {
+    console.error(`[v0] Ingest job ${jobId} could not run:`, error);
+  }
+}
+
+async function processIngestJob(jobId: string): Promise<void> {
+  const supabase = await createClient();
+
+  const { data: claimed, error: claimError } = await supabase.rpc(
+    "claim_ingest_job",
+    { target_job_id: jobId, lease_seconds: LEASE_SECONDS }
+  );
+  if (claimError) throw claimError;
+  if (!claimed) return;
+
+  const job = await getIngestJob(jobId);
+  if (!job) return;
+
+  let lastProgress = Date.now();
+  const update = async (patch: Partial<IngestJob>) => {
+    const now = Date.now();
+    lastProgress = now;
+    const { error } = await supabase
+      .from("ingest_jobs")
+      .update({
+        ...patch,
+        updated_at: new Date(now).toISOString(),
+        locked_until: isTerminal(patch.status ?? job.status)
+          ? null
+          : new Date(now + LEASE_SECONDS * 1000).toISOString(),
+      })
+      .eq("id", jobId);
+    if (error) throw error;
+    Object.assign(job, patch);
+  };
+
+  // Long awaits (upserting a large source, a slow download) make no progress
+  // updates. Only a held lease is extended: a released or finished job stays
+  // released even if a renewal lands late. A call that hangs past
+  // LEASE_MAX_SILENT_MS stops the renewals and lets another worker retry.
+  const renewal = setInterval(() => {
+    if (Date.now() - lastProgress > LEASE_MAX_SILENT_MS) {
+      console.warn(
+        `[v0] Ingest job ${jobId} made no progress; lease left to expire`
+      );
+      clearInterval(renewal);
+      return;
+    }
+    void supabase
+      .from("ingest_jobs")
+      .update({
+        locked_until: new Date(Date.now() + LEASE_SECONDS * 1000).toISOString(),
+      })
+      .eq("id", jobId)
+      .not("locked_until", "is", null)
+      .then(({ error }) => {
+        if (error) console.error("[v0] Lease renewal failed:", error);
+      });
+  }, LEASE_RENEW_MS);
+
+  const redaction = job.options?.redaction ?? DEFAULT_REDACTION_CONFIG;
+
+  console.log(`[v0] Running ingest job ${jobId} (attempt ${job.attempts})`);
+
+  const finish = async () => {
+    await update({ status: "embedding" });
+    const embeddedBefore = job.chunks_embedded;
+    const throughput = await embedMissingChunks(job.user_id, (embedded) =>
+      update({ chunks_embedded: embeddedBefore + embedded })
+    );
+    const embedding = mergeEmbeddingThroughput(
+      job.result?.embedding,
+      throughput
+    );
+
+    await update({
+      status: "done",
+      finished_at: new Date().toISOString(),
+      result: { ...job.result, embedding },
+    });
+    console.log(
+      `[v0] Ingest job ${jobId} completed: ${embedding.chunks} chunks embedded at ${embedding.chunks_per_second.toFixed(1)}/s`
+    );
+
+    // Only days and threads with new chunks get rewritten, in a build of
+    // its own that later runs resume; a failure here does not fail the import
+    try {
+      await queueSummaryBuild(job.user_id, job.options?.timeZone);
+      await runSummaryBuild(job.user_id);
+    } catch (error) {
+      console.error(`[v0] Summary refresh after job ${jobId} failed:`, error);
+    }
+  };
+
+  try {
+    await update({ status: "parsing", error: null });
+
+    // Large uploads never get loaded whole when their format can stream
+    if ((job.size_bytes ?? 0) > STREAMING_THRESHOLD_BYTES) {
+      const streamed = await openStreamedUpload(
+        job.filename,
+        storedUploadChunks(job.storage_path),
+        job.importer,
+        job.options ?? {}
+      );
+      if (streamed) {
+        if (await ingestStreamedUpload(job, streamed, redaction, update)) {
+          await finish();
+        }
+        return;
+      }
+    }
+
+    const { data: blob, error: downloadError } = await supabase.storage
+      .from(UPLOAD_BUCKET)
+      .download(job.storage_path);
+    if (downloadError) throw downloadError;
+
+    // Parsing is synchronous and holds off the renewal timer, so it starts
+    // with a fresh lease
+    await update({});
+    const parsed = parseUpload(
+      new Uint8Array(await blob.arrayBuffer()),
+      job.filename,
+      job.importer,
+      job.options ?? {}
+    );
+    if (!parsed.ok) {
+      await update({
+        status: "failed",
+        error: String(parsed.body.error ?? "Could not parse file"),
+        finished_at: new Date().toISOString(),
+      });
+      return;
+    }
+
+    let sources = parsed.sources;
+    // Re-index jobs keep the key their source row was stored under
+    let targetKey: string | null = null;
+    if (job.target_source_id) {
+      const target = await getChatSource(job.target_source_id);
+      targetKey = target?.source_key ?? null;
+      sources = sources.filter(
+        (s) => targetKey !== null && isSameSource(targetKey, sourceKeyFor(s))
+      );
+      if (sources.length === 0) {
+        await update({
+          status: "failed",
+          error: "Source no longer present in the stored upload",
+          finished_at: new Date().toISOString(),
+        });
+        return;
+      }
+    }
+
+    const dateFailures = collectDateParseFailures(sources);
+    if (dateFailures.count > 0) {
+      console.warn(
+        `[v0] ${dateFailures.count} timestamps could not be parsed, e.g.`,
+        dateFailures.samples
+      );
+    }
+
+    await update({
+      status: "chunking",
+      importer: parsed.importer.id,
+      messages_total: sources.reduce((sum, s) => sum + s.messages.length, 0),
+      sources_total: sources.length,
+      result: { ...job.result, date_parse_failures: dateFailures },
+    });
+
+    const results = job.result?.sources ?? [];
+    for (let i = job.sources_done; i < sources.length; i++) {
+      const source = sources[i];
+      const sourceKey = targetKey ?? sourceKeyFor(source);
+      const metadata = { ...source.metadata, importer: parsed.importer.id };
+
+      // Re-imports only chunk what arrived since the last ingest; re-index
+      // jobs start over because their chunks were just deleted
+      const existing = job.target_source_id
+        ? null
+        : await getChatSourceByKey(job.user_id, sourceKey);
+      const { messages, skipped } = messagesAfterHighWaterMark(
+        existing,
+        source.messages
+      );
+      if (skipped > 0) {
+        console.log(
+          `[v0] ${source.filename}: skipping ${skipped} already-ingested messages`
+        );
+      }
+
+      const chatSource = await upsertChatSource(job.user_id, {
+        sourceKey,
+        filename: source.filename,
+        label: source.label,
+        importer: parsed.importer.id,
+        metadata,
+        ingestJobId: job.id,
+        storagePath: job.storage_path,
+      });
+      // Redaction and windowing block the timer too
+      await update({});
+      const redacted = redactMessages(messages, redaction);
+      const windowOptions = chunkWindowOptions(job.options);
+      const chunks = windowMessagesIntoChunks(redacted.messages, windowOptions);
+      const inserted = await upsertChunks(
+        job.user_id,
+        chunks,
+        source.filename,
+        metadata,
+        chatSource.id
+      );
+      // Only move the mark once the chunks are stored, so a crash in between
+      // re-processes the same messages (deduped by chunk_hash). Dropped
+      // messages still count as ingested.
+      await updateHighWaterMark(chatSource.id, messages);
+      if (redaction.mode !== "off") {
+        await recordRedactionCounts(
+          chatSource.id,
+          mergeRedactionCounts(redacted.counts, {
+            dropped_messages: redacted.dropped,
+          })
+        );
+      }
+      results.push({
+        filename: source.filename,
+        label: source.label,
+        total_messages: source.messages.length,
+        new_messages: messages.length,
+        redacted: redacted.counts,
+        dropped_messages: redacted.dropped,
+        noise_filtered: windowOptions.noiseFilter.result().counts,
+        chunks_generated: chunks.length,
+        chunks_inserted: inserted,
+      });
+      await update({
+        sources_done: i + 1,
+        chunks_total: job.chunks_total + chunks.length,
+        chunks_inserted: job.chunks_inserted + inserted,
+        result: { ...job.result, sources: results },
+      });
+    }
+
+    await finish();
+  } catch (error) {
+    console.error(`[v0] Ingest job ${jobId} failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    if (job.attempts >= MAX_ATTEMPTS) {
+      await update({
+        status: "failed",
+        error: message,
+        finished_at: new Date().toISOString(),
+      }).catch((updateError) =>
+        console.error(`[v0] Could not fail ingest job ${jobId}:`, updateError)
+      );
+    } else {
+      // Keep the current stage and drop the lease so the next poll retries
+      const { error: releaseError } = await supabase
+        .from("ingest_jobs")
+        .update({ error: message, locked_until: null })
+        .eq("id", jobId);
+      if (releaseError) console.error(releaseError);
+    }
+  } finally {
+    clearInterval(renewal);
+  }
+}
+
+/** A fresh streamed download of a stored upload on every call */
+function storedUploadChunks(
+  storagePath: string
+): () => AsyncIterable<Uint8Array> {
+  return async function* () {
+    const supabase = await createClient();
+    const { data, error } = await supabase.storage
+      .from(UPLOAD_BUCKET)
+      .createSignedUrl(storagePath, 600);
+    if (error) throw error;
+    const response = await fetch(data.signedUrl);
+    if (!response.ok || !response.body) {
+      throw new Error(`Could not download upload (${response.status})`);
+    }
+    yield* readableStreamChunks(response.body);
+  };
+}
+
+/**
+ * Chunk a streamed upload (always one source). Messages flow from storage
+ * through redaction and the chunk window, and every STREAM_CHUNK_BATCH
+ * chunks are stored and embedded before more of the file is read, so memory
+ * stays flat however large the upload is. Returns false when the job failed.
+ */
+async function ingestStreamedUpload(
+  job: IngestJob,
+  streamed: StreamedUpload,
+  redaction: RedactionConfig,
+  update: (patch: Partial<IngestJob>) => Promise<void>
+): Promise<boolean> {
+  const fail = async (error: string) => {
+    await update({
+      status: "failed",
+      error,
+      finished_at: new Date().toISOString(),
+    });
+    return false;
+  };
+  if (!streamed.ok) {
+    return fail(String(streamed.body.error ?? "Could not parse file"));
+  }
+
+  const { source, importer } = streamed;
+  let sourceKey = await streamedSourceKeyFor(source);
+  if (job.target_source_id) {
+    const target = await getChatSource(job.target_source_id);
+    if (!target || !isSameSource(target.source_key, sourceKey)) {
+      return fail("Source no longer present in the stored upload");
+    }
+    sourceKey = target.source_key;
+  }
+  // A retry after chunking finished only has embedding left
+  if (job.sources_done > 0) return true;
+
+  // Re-imports only chunk what arrived since the last ingest; re-index jobs
+  // start over because their chunks were just deleted
+  const existing = job.target_source_id
+    ? null
+    : await getChatSourceByKey(job.user_id, sourceKey);
+  const { total, keep } = await streamHighWaterFilter(
+    existing,
+    source,
+    (scanned) => update({ messages_total: scanned })
+  );
+  if (total === 0) return fail("No messages found in the file");
+
+  const metadata = { ...source.metadata, importer: importer.id };
+  const chatSource = await upsertChatSource(job.user_id, {
+    sourceKey,
+    filename: source.filename,
+    label: source.label,
+    importer: importer.id,
+    metadata,
+    ingestJobId: job.id,
+    storagePath: job.storage_path,
+  });
+  await update({
+    status: "chunking",
+    importer: importer.id,
+    messages_total: total,
+    sources_total: 1,
+    // A retry streams the file from the start again, so totals restart too;
+    // chunks_inserted stays cumulative because re-upserted chunks count 0
+    chunks_total: 0,
+    result: { ...job.result, streamed: true },
+  });
+
+  const windowOptions = chunkWindowOptions(job.options);
+  const window = createChunkWindow(windowOptions);
+  const dateFailures = createDateFailureCollector();
+  let redactionCounts: RedactionCounts = {};
+  let dropped = 0;
+  let newMessages = 0;
+  let chunksGenerated = 0;
+  let chunksInserted = 0;
+  let throughput: EmbeddingThroughput | undefined;
+  let last: NormalizedMsg | null = null;
+  let latest: NormalizedMsg | null = null;
+  let pending: ChunkInput[] = [];
+
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const batch = pending;
+    pending = [];
+    const inserted = await upsertChunks(
+      job.user_id,
+      batch,
+      source.filename,
+      metadata,
+      chatSource.id
+    );
+    chunksGenerated += batch.length;
+    chunksInserted += inserted;
+    await update({
+      chunks_total: chunksGenerated,
+      chunks_inserted: job.chunks_inserted + inserted,
+    });
+    const embeddedBefore = job.chunks_embedded;
+    throughput = mergeEmbeddingThroughput(
+      throughput,
+      await embedMissingChunks(job.user_id, (embedded) =>
+        update({ chunks_embedded: embeddedBefore + embedded })
+      )
+    );
+  };
+
+  let index = 0;
+  for await (const m of source.messages()) {
+    dateFailures.add(m);
+    if (++index % STREAM_HEARTBEAT_MESSAGES === 0) await update({});
+    if (!keep(m, index - 1)) continue;
+
+    newMessages += 1;
+    last = m;
+    if (
+      m.timestamp &&
+      (!latest || Date.parse(m.timestamp) >= Date.parse(latest.timestamp!))
+    ) {
+      latest = m;
+    }
+    const redacted = redactMessages([m], redaction);
+    redactionCounts = mergeRedactionCounts(redactionCounts, redacted.counts);
+    dropped += redacted.dropped;
+    for (const kept of redacted.messages) pending.push(...window.add(kept));
+    if (pending.length >= STREAM_CHUNK_BATCH) await flush();
+  }
+  pending.push(...window.finish());
+  await flush();
+
+  // Move the mark only once every chunk is stored; [latest, last] yields the
+  // same mark as the full message list would
+  if (last) {
+    await updateHighWaterMark(
+      chatSource.id,
+      latest && latest !== last ? [latest, last] : [last]
+    );
+  }
+  if (redaction.mode !== "off") {
+    await recordRedactionCounts(
+      chatSource.id,
+      mergeRedactionCounts(redactionCounts, { dropped_messages: dropped })
+    );
+  }
+
+  const failures = dateFailures.result();
+  if (failures.count > 0) {
+    console.warn(
+      `[v0] ${failures.count} timestamps could not be parsed, e.g.`,
+      failures.samples
+    );
+  }
+  await update({
+    sources_done: 1,
+    result: {
+      ...job.result,
+      date_parse_failures: failures,
+      ...(throughput
+        ? {
+            embedding: mergeEmbeddingThroughput(
+              job.result?.embedding,
+              throughput
+            ),
+          }
+        : {}),
+      sources: [
+        {
+          filename: source.filename,
+          label: source.label,
+          total_messages: total,
+          new_messages: newMessages,
+          redacted: redactionCounts,
+          dropped_messages: dropped,
+          noise_filtered: windowOptions.noiseFilter.result().counts,
+          chunks_generated: chunksGenerated,
+          chunks_inserted: chunksInserted,
+        },
+      ],
+    },
+  });
+  return true;
+}
@@ -0,0 +1,586 @@
+import {
+  createChunkWindow,
+  type ChunkSizing,
+  type ChunkWindowOptions,
+  type ChunkingMode,
+  type NormalizedMsg,
+  type SessionOptions,
+} from "@/lib/rag";
+import { getEmbeddingProvider, type EmbeddingProvider } from "@/lib/embeddings";
+import { isValidTimeZone } from "@/lib/dates";
+import {
+  DEFAULT_REDACTION_CONFIG,
+  redactionConfigError,
+  type RedactionConfig,
+  type RedactionMode,
+} from "@/lib/redaction";
+import {
+  createNoiseFilter,
+  DEFAULT_NOISE_FILTER_CONFIG,
+  NOISE_PACKS,
+  type NoiseCounts,
+  type NoiseFilter,
+  type NoiseFilterConfig,
+} from "@/lib/noise-filter";
+import {
+  createImportInput,
+  detectImporter,
+  detectStreamingImporter,
+  getImporter,
+  listImporters,
+  parseColumnMapping,
+  type ChatImporter,
+  type ColumnMapping,
+  type ImportedSource,
+  type ImporterInfo,
+  type StreamedSource,
+} from "@/lib/importers";
+
+/** Per-upload settings, stored on the ingest job so resumes and re-indexes match */
+export interface IngestOptions {
+  redaction: RedactionConfig;
+  // IANA zone for export timestamps that carry no offset (default UTC)
+  timeZone?: string;
+  // Column choice for CSV/TSV uploads; guessed from headers when absent
+  columnMapping?: ColumnMapping;
+  // Group chunks by thread (default) or pack them in file order
+  chunking?: ChunkingMode;
+  // Where conversation sessions break; rag defaults for anything unset
+  sessions?: Omit<SessionOptions, "timeZone">;
+  // Token sizing from the workspace settings at upload time
+  sizing?: ChunkSizing;
+  // Rule packs and patterns for messages left out of chunks
+  noise?: NoiseFilterConfig;
+}
+
+const REDACTION_MODES: RedactionMode[] = ["off", "mask", "hash", "drop"];
+
+/**
+ * Read ingest options from upload query parameters, falling back to the server
+ * defaults: redaction (off|mask|hash|drop), redaction_detectors (comma list),
+ * redaction_allow (one entry per line or comma), timezone (IANA name),
+ * column_mapping (JSON object of field -> column header), chunking
+ * (thread|sequential), session_gap_minutes (above 0),
+ * session_participant_gap_minutes (0 disables), session_day_boundary
+ * (true|false), noise_packs (comma list, empty for none) and noise_patterns
+ * (one regex per line). Redaction settings that would not redact as asked
+ * (unknown detectors, hash mode without a server secret) are an error rather
+ * than a silent fallback.
+ */
+export function parseIngestOptions(
+  params: URLSearchParams
+): { options: IngestOptions } | { error: string } {
+  const mode = params.get("redaction") as RedactionMode | null;
+  const detectors = params.get("redaction_detectors");
+  const allow = params.get("redaction_allow");
+  const timeZone = params.get("timezone");
+  const columnMapping = params.get("column_mapping");
+  const chunking = params.get("chunking");
+  const sessionGap = params.get("session_gap_minutes");
+  const participantGap = params.get("session_participant_gap_minutes");
+  const dayBoundary = params.get("session_day_boundary");
+  const noisePacks = params.get("noise_packs");
+  const noisePatterns = params.get("noise_patterns");
+  // A 0 session gap would make every message its own session and chunk
+  const minutes = (value: string | null, allowZero = false) => {
+    const n = value ? Number(value) : NaN;
+    return Number.isFinite(n) && (n > 0 || (allowZero && n === 0))
+      ? n
+      : undefined;
+  };
+  const split = (value: string) =>
+    value
+      .split(/[\n,]/)
+      .map((s) => s.trim())
+      .filter(Boolean);
+
+  const options: IngestOptions = {
+    redaction: {
+      mode:
+        mode && REDACTION_MODES.includes(mode)
+          ? mode
+          : DEFAULT_REDACTION_CONFIG.mode,
+      detectors: detectors
+        ? split(detectors)
+        : DEFAULT_REDACTION_CONFIG.detectors,
+      allowList: [
+        ...DEFAULT_REDACTION_CONFIG.allowList,
+        ...(allow ? split(allow) : []),
+      ],
+    },
+    timeZone: timeZone && isValidTimeZone(timeZone) ? timeZone : undefined,
+    columnMapping: columnMapping
+      ? (parseColumnMapping(safeJsonParse(columnMapping)) ?? undefined)
+      : undefined,
+    chunking:
+      chunking === "thread" || chunking === "sequential" ? chunking : undefined,
+    sessions: {
+      sessionGapMinutes: minutes(sessionGap),
+      participantChangeGapMinutes: minutes(participantGap, true),
+      splitOnDayBoundary:
+        dayBoundary === "true" || dayBoundary === "false"
+          ? dayBoundary === "true"
+          : undefined,
+    },
+    noise: {
+      packs:
+        noisePacks === null
+          ? DEFAULT_NOISE_FILTER_CONFIG.packs
+          : split(noisePacks).filter((p) => NOISE_PACKS.includes(p)),
+      // Regexes may contain commas, so only newlines separate them
+      patterns: (noisePatterns ?? "")
+        .split("\n")
+        .map((s) => s.trim())
+        .filter(Boolean),
+    },
+  };
+  const error = redactionConfigError(options.redaction);
+  return error ? { error } : { options };
+}
+
+/** How an upload's messages are windowed into chunks */
+export function chunkWindowOptions(
+  options: Partial<IngestOptions> = {}
+): ChunkWindowOptions & { noiseFilter: NoiseFilter } {
+  // Unset fields must stay absent so the window's defaults apply
+  const sessions = Object.fromEntries(
+    Object.entries(options.sessions ?? {}).filter(([, v]) => v !== undefined)
+  );
+  return {
+    mode: options.chunking,
+    timeZone: options.timeZone,
+    ...options.sizing,
+    ...sessions,
+    noiseFilter: createNoiseFilter(
+      options.noise ?? DEFAULT_NOISE_FILTER_CONFIG
+    ),
+  };
+}
+
+function safeJsonParse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+export type ParsedUpload =
+  | {
+      ok: true;
+      importer: ImporterInfo;
+      detection: Array<{ id: string; score: number }>;
+      sources: ImportedSource[];
+      totalMessages: number;
+      inspection: Record<string, unknown> | null;
+    }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+/**
+ * Pick an importer for an uploaded file (auto-detected unless one is forced)
+ * and parse it into sources. Failures come back as a status + JSON body so
+ * routes can return them as-is; once an importer is chosen, both carry its
+ * inspection (e.g. CSV columns) so the client can fix a bad column mapping.
+ */
+export function parseUpload(
+  bytes: Uint8Array,
+  uploadName: string,
+  forcedImporterId: string | null,
+  options: Partial<IngestOptions> = {}
+): ParsedUpload {
+  const input = createImportInput(uploadName, bytes, {
+    dateOptions: { timeZone: options.timeZone },
+    columnMapping: options.columnMapping,
+  });
+
+  let importer: ChatImporter;
+  let detection: Array<{ id: string; score: number }> = [];
+  if (forcedImporterId) {
+    const forced = getImporter(forcedImporterId);
+    if (!forced) {
+      return {
+        ok: false,
+        status: 400,
+        body: {
+          error: `Unknown importer: ${forcedImporterId}`,
+          importers: listImporters(),
+        },
+      };
+    }
+    importer = forced;
+  } else {
+    const detected = detectImporter(input);
+    detection = detected.scores;
+    if (!detected.importer) {
+      console.log("[v0] No importer recognised the file");
+      return {
+        ok: false,
+        status: 400,
+        body: { error: "Unsupported file format", importers: listImporters() },
+      };
+    }
+    importer = detected.importer;
+  }
+
+  const importerInfo = importer.describe();
+  console.log("[v0] Parsing with importer:", importerInfo.id);
+
+  let inspection: Record<string, unknown> | null = null;
+  try {
+    inspection = importer.inspect?.(input) ?? null;
+  } catch (inspectError) {
+    console.error("[v0] Import inspect error:", inspectError);
+  }
+
+  let sources: ImportedSource[];
+  try {
+    sources = importer.parse(input);
+  } catch (parseError) {
+    console.error("[v0] Import parse error:", parseError);
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        error: `Could not parse file as ${importerInfo.name}: ${
+          parseError instanceof Error ? parseError.message : "Unknown error"
+        }`,
+        importer: importerInfo,
+        inspection,
+      },
+    };
+  }
+
+  const totalMessages = sources.reduce((sum, s) => sum + s.messages.length, 0);
+  if (totalMessages === 0) {
+    console.log("[v0] No messages found in file");
+    return {
+      ok: false,
+      status: 400,
+      body: {
+        error: "No messages found in the file",
+        importer: importerInfo,
+        inspection,
+      },
+    };
+  }
+
+  return {
+    ok: true,
+    importer: importerInfo,
+    detection,
+    sources,
+    totalMessages,
+    inspection,
+  };
+}
+
+// Uploads above this size are read incrementally when their importer can
+// stream (see StreamImportInput); smaller ones are parsed in one go
+export const STREAMING_THRESHOLD_BYTES = 32 * 1024 * 1024;
+// Enough of the file for streaming detection to see the first messages
+const STREAM_HEAD_BYTES = 64 * 1024;
+
+export type StreamedUpload =
+  | {
+      ok: true;
+      importer: ImporterInfo;
+      detection: Array<{ id: string; score: number }>;
+      source: StreamedSource;
+    }
+  | { ok: false; status: number; body: Record<string, unknown> };
+
+/**
+ * parseUpload for files above STREAMING_THRESHOLD_BYTES. `chunks` must start
+ * a fresh read of the upload on every call. Returns null when no importer
+ * can stream the file, in which case the caller falls back to parseUpload.
+ */
+export async function openStreamedUpload(
+  uploadName: string,
+  chunks: () => AsyncIterable<Uint8Array>,
+  forcedImporterId: string | null,
+  options: Partial<IngestOptions> = {}
+): Promise<StreamedUpload | null> {
+  const lower = uploadName.toLowerCase();
+  const dot = lower.lastIndexOf(".");
+  const input = {
+    name: uploadName,
+    extension: dot >= 0 ? lower.slice(dot) : "",
+    dateOptions: { timeZone: options.timeZone },
+    head: await readHead(chunks(), STREAM_HEAD_BYTES),
+    chunks,
+  };
+
+  let importer: ChatImporter | null;
+  let detection: Array<{ id: string; score: number }> = [];
+  if (forcedImporterId) {
+    importer = getImporter(forcedImporterId) ?? null;
+    if (!importer) {
+      return {
+        ok: false,
+        status: 400,
+        body: {
+          error: `Unknown importer: ${forcedImporterId}`,
+          importers: listImporters(),
+        },
+      };
+    }
+    if (!importer.parseStream) return null;
+  } else {
+    const detected = detectStreamingImporter(input);
+    detection = detected.scores;
+    importer = detected.importer;
+    if (!importer) return null;
+  }
+
+  const importerInfo = importer.describe();
+  console.log("[v0] Streaming with importer:", importerInfo.id);
+  return {
+    ok: true,
+    importer: importerInfo,
+    detection,
+    source: importer.parseStream!(input),
+  };
+}
+
+/**
+ * Read at most `maxBytes` of an upload's body and cancel the rest, so what a
+ * request holds in memory does not grow with the file. `complete` is false
+ * when the body went on past `maxBytes`.
+ */
+export async function readUploadHead(
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number
+): Promise<{ bytes: Uint8Array; complete: boolean }> {
+  const parts: Uint8Array[] = [];
+  let size = 0;
+  let complete = false;
+  const reader = body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      complete = true;
+      break;
+    }
+    parts.push(value.subarray(0, maxBytes - size));
+    size += value.length;
+    if (size > maxBytes) break;
+  }
+  if (!complete) await reader.cancel();
+
+  const bytes = new Uint8Array(Math.min(size, maxBytes));
+  let offset = 0;
+  for (const part of parts) {
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return { bytes, complete };
+}
+
+/** Bytes already in memory, as chunks for openStreamedUpload */
+export function bytesChunks(
+  bytes: Uint8Array
+): () => AsyncIterable<Uint8Array> {
+  return async function* () {
+    yield bytes;
+  };
+}
+
+/**
+ * A streamed source read from only the start of its upload (see
+ * readUploadHead). The sample ends mid-document, so reading past its last
+ * whole message fails; that failure is where the sample ends.
+ */
+export function sampledSource(source: StreamedSource): StreamedSource {
+  return {
+    ...source,
+    async *messages() {
+      try {
+        yield* source.messages();
+      } catch {
+        // End of the sample
+      }
+    },
+  };
+}
+
+async function readHead(
+  chunks: AsyncIterable<Uint8Array>,
+  maxBytes: number
+): Promise<string> {
+  const decoder = new TextDecoder();
+  let head = "";
+  let bytes = 0;
+  for await (const chunk of chunks) {
+    head += decoder.decode(chunk.subarray(0, maxBytes - bytes), {
+      stream: true,
+    });
+    bytes += chunk.length;
+    if (bytes >= maxBytes) break;
+  }
+  return head.replace(/^\uFEFF/, "");
+}
+
+export interface ImportPreview {
+  total_messages: number;
+  participants: Array<{ name: string; email: string | null; messages: number }>;
+  date_range: { earliest: string | null; latest: string | null };
+  date_parse_failures: number;
+  date_parse_failure_samples: string[];
+  chunk_count: number;
+  embedding_model: string;
+  embedding_dimensions: number;
+  estimated_tokens: number;
+  estimated_cost_usd: number;
+  // Messages the noise filter left out, by rule id
+  noise_filter: {
+    removed: number;
+    counts: NoiseCounts;
+    rules: Array<{ id: string; pack: string; label: string }>;
+    invalid_patterns: string[];
+  };
+  sources: Array<{
+    filename: string;
+    label: string | null;
+    total_messages: number;
+    chunk_count: number;
+  }>;
+}
+
+const DATE_FAILURE_SAMPLES = 5;
+
+/**
+ * Tally of messages whose export had a timestamp that could not be parsed,
+ * with a few distinct raw values so the format can be reported and fixed.
+ */
+export function createDateFailureCollector() {
+  let count = 0;
+  const samples = new Set<string>();
+  return {
+    add(m: NormalizedMsg) {
+      if (m.timestamp || !m.rawTimestamp) return;
+      count += 1;
+      if (samples.size < DATE_FAILURE_SAMPLES) samples.add(m.rawTimestamp);
+    },
+    result(): { count: number; samples: string[] } {
+      return { count, samples: Array.from(samples) };
+    },
+  };
+}
+
+export function collectDateParseFailures(sources: ImportedSource[]): {
+  count: number;
+  samples: string[];
+} {
+  const collector = createDateFailureCollector();
+  for (const source of sources) {
+    for (const m of source.messages) collector.add(m);
+  }
+  return collector.result();
+}
+
+/**
+ * Accumulate an ImportPreview one message at a time, so streamed uploads can
+ * be previewed without holding their messages. Runs the real chunking, but
+ * nothing touches the DB.
+ */
+export function createImportPreviewBuilder(
+  windowOptions: ChunkWindowOptions = {},
+  embedder: EmbeddingProvider = getEmbeddingProvider()
+) {
+  const participants = new Map<
+    string,
+    { name: string; email: string | null; messages: number }
+  >();
+  let earliest: number | null = null;
+  let latest: number | null = null;
+  let totalMessages = 0;
+  let chunkCount = 0;
+  let chunkTokens = 0;
+  const perSource: ImportPreview["sources"] = [];
+  const dateFailures = createDateFailureCollector();
+  // One filter across sources so its counts cover the whole upload
+  const noise = windowOptions.noiseFilter ?? createNoiseFilter();
+  const options = { ...windowOptions, noiseFilter: noise };
+
+  return {
+    startSource(filename: string, label: string | null) {
+      const entry = { filename, label, total_messages: 0, chunk_count: 0 };
+      perSource.push(entry);
+      const window = createChunkWindow(options);
+      const countChunks = (chunks: Array<{ tokens: number }>) => {
+        entry.chunk_count += chunks.length;
+        chunkCount += chunks.length;
+        chunkTokens += chunks.reduce((sum, c) => sum + c.tokens, 0);
+      };
+
+      return {
+        add(m: NormalizedMsg) {
+          const key = m.email || m.participant;
+          const participant = participants.get(key) ?? {
+            name: m.participant,
+            email: m.email || null,
+            messages: 0,
+          };
+          participant.messages += 1;
+          participants.set(key, participant);
+
+          const time = m.timestamp ? Date.parse(m.timestamp) : NaN;
+          if (!isNaN(time)) {
+            if (earliest === null || time < earliest) earliest = time;
+            if (latest === null || time > latest) latest = time;
+          }
+          dateFailures.add(m);
+          entry.total_messages += 1;
+          totalMessages += 1;
+          countChunks(window.add(m));
+        },
+        finish() {
+          countChunks(window.finish());
+        },
+      };
+    },
+
+    result(): ImportPreview {
+      const failures = dateFailures.result();
+      const filtered = noise.result();
+      return {
+        total_messages: totalMessages,
+        participants: Array.from(participants.values()).sort(
+          (a, b) => b.messages - a.messages
+        ),
+        date_range: {
+          earliest: earliest === null ? null : new Date(earliest).toISOString(),
+          latest: latest === null ? null : new Date(latest).toISOString(),
+        },
+        date_parse_failures: failures.count,
+        date_parse_failure_samples: failures.samples,
+        chunk_count: chunkCount,
+        embedding_model: embedder.model,
+        embedding_dimensions: embedder.dimensions,
+        estimated_tokens: chunkTokens,
+        estimated_cost_usd:
+          (chunkTokens / 1_000_000) * embedder.pricePerMillionTokens,
+        noise_filter: {
+          removed: Object.values(filtered.counts).reduce((a, b) => a + b, 0),
+          ...filtered,
+        },
+        sources: perSource,
+      };
+    },
+  };
+}
+
+/** Dry-run the chunking pipeline over parsed sources without touching the DB */
+export function buildImportPreview(
+  sources: ImportedSource[],
+  windowOptions: ChunkWindowOptions = {},
+  embedder: EmbeddingProvider = getEmbeddingProvider()
+): ImportPreview {
+  const builder = createImportPreviewBuilder(windowOptions, embedder);
+  for (const source of sources) {
+    const preview = builder.startSource(source.filename, source.label);
+    for (const m of source.messages) preview.add(m);
+    preview.finish();
+  }
+  return builder.result();
+}
@@ -0,0 +1,149 @@
+/**
+ * Yield the elements of one JSON array from a byte stream without holding
+ * the document in memory: the root array, or the array under the top-level
+ * `arrayKey` ({"messages": [...]}). Only the element being read is buffered,
+ * so peak memory depends on the largest element, not the file size.
+ * Everything outside the array is skipped unparsed.
+ */
+export async function* streamJsonArrayItems(
+  chunks: AsyncIterable<Uint8Array>,
+  arrayKey = "messages"
+): AsyncGenerator<unknown> {
+  const decoder = new TextDecoder();
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // Top-level key being read and the last one completed, to spot arrayKey
+  let keyStart = -1;
+  let keyText = "";
+  let lastKey: string | null = null;
+  let currentKey: string | null = null;
+  // Depth of the target array's elements; 0 until it is found, -1 after
+  let itemDepth = 0;
+  let item = "";
+  let itemStart = -1;
+  let scalar = false;
+  let seenRoot = false;
+
+  const parseItem = (text: string) => {
+    try {
+      return JSON.parse(text) as unknown;
+    } catch (error) {
+      throw new Error(
+        `Invalid JSON array element: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  };
+
+  for await (const bytes of chunks) {
+    const text = decoder.decode(bytes, { stream: true });
+    if (itemStart >= 0) itemStart = 0;
+    if (keyStart >= 0) keyStart = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === "\\") escaped = true;
+        else if (ch === '"') {
+          inString = false;
+          if (keyStart >= 0) {
+            lastKey = JSON.parse(keyText + text.slice(keyStart, i + 1));
+            keyStart = -1;
+            keyText = "";
+          }
+        }
+        continue;
+      }
+
+      if (itemDepth > 0 && depth === itemDepth) {
+        // A bare value (number, string, true/false/null) ends at the next
+        // delimiter; containers end where their closing bracket is handled
+        if (
+          itemStart >= 0 &&
+          scalar &&
+          (ch === "," || ch === "]" || /\s/.test(ch))
+        ) {
+          yield parseItem(item + text.slice(itemStart, i));
+          item = "";
+          itemStart = -1;
+        }
+        if (itemStart < 0) {
+          if (ch === "]") {
+            depth -= 1;
+            itemDepth = -1;
+            continue;
+          }
+          if (ch === "," || /\s/.test(ch)) continue;
+          itemStart = i;
+          item = "";
+          scalar = ch !== "{" && ch !== "[";
+        }
+      }
+
+      if (ch === '"') {
+        inString = true;
+        if (depth === 1 && itemDepth === 0) {
+          keyStart = i;
+          keyText = "";
+        }
+      } else if (ch === "{" || ch === "[") {
+        if (!seenRoot) {
+          seenRoot = true;
+          if (ch === "[") itemDepth = 1;
+        } else if (
+          ch === "[" &&
+          depth === 1 &&
+          itemDepth === 0 &&
+          currentKey === arrayKey
+        ) {
+          itemDepth = 2;
+        }
+        depth += 1;
+      } else if (ch === "}" || ch === "]") {
+        depth -= 1;
+        if (itemStart >= 0 && !scalar && depth === itemDepth) {
+          yield parseItem(item + text.slice(itemStart, i + 1));
+          item = "";
+          itemStart = -1;
+        }
+      } else if (ch === ":" && depth === 1) {
+        currentKey = lastKey;
+      } else if (ch === "," && depth === 1) {
+        currentKey = null;
+      }
+    }
+
+    if (itemStart >= 0) item += text.slice(itemStart);
+    if (keyStart >= 0) keyText += text.slice(keyStart);
+  }
+
+  if (itemDepth === 0) {
+    throw new Error(`No "${arrayKey}" array found in the JSON document`);
+  }
+  // A closing bracket never came: importing the items read so far would
+  // pass a cut-off upload off as complete
+  if (depth > 0 || inString) {
+    throw new Error("Unexpected end of JSON document; is the file truncated?");
+  }
+}
+
+/** Async iteration over a web ReadableStream; stopping early cancels it */
+export async function* readableStreamChunks(
+  stream: ReadableStream<Uint8Array>
+): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      if (value) yield value;
+    }
+  } finally {
+    await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
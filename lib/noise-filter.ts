@@ -0,0 +1,188 @@
+import type { NormalizedMsg } from "@/lib/rag";
+
+export interface NoiseRule {
+  id: string;
+  pack: string;
+  label: string;
+  test: (m: NormalizedMsg) => boolean;
+}
+
+export interface NoiseFilterConfig {
+  // Built-in rule packs to apply
+  packs: string[];
+  // User-defined regexes (case-insensitive) matched against the whole text
+  patterns: string[];
+}
+
+export type NoiseCounts = Record<string, number>;
+
+// Text with edge punctuation and repeated trailing letters evened out, so
+// "Thanks!!", "okkk" and "ok." all compare equal to their plain form
+function normalized(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/^[\s\p{P}]+|[\s\p{P}]+$/gu, "")
+    .replace(/(\p{L})\1{2,}$/u, "$1");
+}
+
+function acknowledgements(
+  language: string,
+  label: string,
+  // "|"-separated, already normalized
+  phrases: string
+): NoiseRule {
+  const set = new Set(phrases.split("|"));
+  return {
+    id: `ack_${language}`,
+    pack: `ack-${language}`,
+    label,
+    test: (m) => set.has(normalized(m.content)),
+  };
+}
+
+function systemLine(id: string, label: string, pattern: RegExp): NoiseRule {
+  return { id, pack: "system", label, test: (m) => pattern.test(m.content) };
+}
+
+// Emoji with skin tones, flags, keycaps and joiners
+const EMOJI_ONLY =
+  /^[\s\p{Extended_Pictographic}\p{Emoji_Modifier}\p{Regional_Indicator}\u200d\ufe0f\u20e3]+$/u;
+
+const BOT_SENDER =
+  /(\bbot\b|\[bot\]|\bwebhook\b|\bintegration\b|^slackbot$|^google (calendar|drive)$|^(github|jira|gitlab|jenkins|pagerduty|sentry)\b)/i;
+
+export const BUILTIN_NOISE_RULES: NoiseRule[] = [
+  {
+    id: "too_short",
+    pack: "short",
+    label: "Fewer than 2 characters",
+    test: (m) => m.content.trim().length < 2,
+  },
+  {
+    id: "emoji_only",
+    pack: "reactions",
+    label: "Only emoji",
+    test: (m) => EMOJI_ONLY.test(m.content) && /\S/.test(m.content),
+  },
+  {
+    id: "shortcode_only",
+    pack: "reactions",
+    label: "Only :emoji: shortcodes",
+    test: (m) => /^\s*(:[a-z0-9_+'-]+:\s*)+$/i.test(m.content),
+  },
+  {
+    id: "plus_one",
+    pack: "reactions",
+    label: "+1 / -1 / ^ / same",
+    test: (m) => /^\s*([+-]1+|\^+|same( here)?)\s*!*\s*$/i.test(m.content),
+  },
+  systemLine(
+    "membership",
+    "Joined, left, added or removed",
+    /^.{0,80}\b(joined|left|has joined|has left|was added|was removed|added .{1,80} to|removed .{1,80} from)( the)? (space|channel|group|conversation|chat|room)[\s.!]*$/i
+  ),
+  systemLine(
+    "chat_settings",
+    "Name, topic, icon or pin changes",
+    /^.{0,80}\b(changed|set|updated|cleared) (the )?(group|channel|space|chat|room)?\s*(name|topic|purpose|description|icon|photo|subject)\b|^.{0,80}\bpinned a message\b/i
+  ),
+  systemLine(
+    "placeholder",
+    "Media omitted, deleted, encryption notices",
+    /^\s*(<media omitted>|<attached: .+>|this message was deleted|you deleted this message|(image|video|audio|sticker|gif|document) omitted|missed (voice|video) call|messages and calls are end-to-end encrypted.*)\s*$/i
+  ),
+  {
+    id: "bot_sender",
+    pack: "bots",
+    label: "Sent by a bot or integration",
+    // "Deploy bot", "dependabot[bot]", "BuildBot" but not "Talbot"
+    test: (m) =>
+      BOT_SENDER.test(m.participant.trim()) ||
+      /[a-z]Bot$/.test(m.participant.trim()),
+  },
+  acknowledgements(
+    "en",
+    "English acknowledgements",
+    "ok|okay|k|kk|lol|haha|hahaha|lmao|thx|thanks|thank you|thanks a lot|ty|tysm|sounds good|sgtm|got it|np|no problem|no worries|sure|cool|nice|great|yep|yup|yes|yeah|will do|noted|done|perfect|ack|roger|agreed"
+  ),
+  acknowledgements(
+    "de",
+    "German acknowledgements",
+    "ok|okay|danke|danke dir|vielen dank|alles klar|passt|super|jup|jo|ja|gut|top|klar|gerne|mach ich"
+  ),
+  acknowledgements(
+    "es",
+    "Spanish acknowledgements",
+    "ok|vale|gracias|muchas gracias|perfecto|jaja|jajaja|sí|si|dale|genial|de acuerdo|listo|claro|va"
+  ),
+  acknowledgements(
+    "fr",
+    "French acknowledgements",
+    "ok|merci|merci beaucoup|d'accord|dac|parfait|mdr|oui|super|ça marche|ca marche|top|nickel|entendu"
+  ),
+  acknowledgements(
+    "pt",
+    "Portuguese acknowledgements",
+    "ok|valeu|obrigado|obrigada|beleza|blz|kkk|kkkk|certo|sim|show|perfeito|combinado|tá|ta bom"
+  ),
+];
+
+export const NOISE_PACKS = Array.from(
+  new Set(BUILTIN_NOISE_RULES.map((r) => r.pack))
+);
+
+export const DEFAULT_NOISE_FILTER_CONFIG: NoiseFilterConfig = {
+  packs: (process.env.NOISE_FILTER_PACKS || "short,reactions,system,ack-en")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean),
+  patterns: [],
+};
+
+/**
+ * Stage between redaction and chunking that leaves out messages with nothing
+ * worth retrieving. match() returns the id of the first rule a message hits
+ * (custom patterns are "custom_1", "custom_2", ...) and counts it, so
+ * previews and jobs can report what each rule removed.
+ */
+export function createNoiseFilter(
+  config: NoiseFilterConfig = DEFAULT_NOISE_FILTER_CONFIG
+) {
+  const rules = BUILTIN_NOISE_RULES.filter((r) =>
+    config.packs.includes(r.pack)
+  );
+  const invalidPatterns: string[] = [];
+  config.patterns.forEach((pattern, i) => {
+    try {
+      const regex = new RegExp(`^(?:${pattern})$`, "iu");
+      rules.push({
+        id: `custom_${i + 1}`,
+        pack: "custom",
+        label: pattern,
+        test: (m) => regex.test(m.content.trim()),
+      });
+    } catch {
+      invalidPatterns.push(pattern);
+    }
+  });
+  const counts: NoiseCounts = {};
+
+  return {
+    match(m: NormalizedMsg): string | null {
+      const rule = rules.find((r) => r.test(m));
+      if (!rule) return null;
+      counts[rule.id] = (counts[rule.id] ?? 0) + 1;
+      return rule.id;
+    },
+    result() {
+      return {
+        counts: { ...counts },
+        rules: rules.map(({ id, pack, label }) => ({ id, pack, label })),
+        invalid_patterns: invalidPatterns,
+      };
+    },
+  };
+}
+
+export type NoiseFilter = ReturnType<typeof createNoiseFilter>;
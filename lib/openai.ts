@@ -1,92 +1,19 @@
 import OpenAI from "openai"
 
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error("Missing OPENAI_API_KEY environment variable")
-}
-
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-})
+let client: OpenAI | null = null;
 
-export async function generateEmbedding(text: string): Promise<number[]> {
-  try {
-    // Truncate text if it's too long (OpenAI has limits)
-    const truncatedText = text.length > 8000 ? text.substring(0, 8000) : text;
-
-    const response = await openai.embeddings.create({
-      model: "text-embedding-3-small",
-      input: truncatedText,
-      encoding_format: "float",
-    });
-
-    return response.data[0].embedding;
-  } catch (error) {
-    console.error("Error generating embedding:", error);
-
-    // Check for specific error types
-    if (error instanceof Error) {
-      if (
-        error.message.includes("rate_limit") ||
-        error.message.includes("429")
-      ) {
-        throw new Error("Rate limit exceeded - please try again later");
-      }
-      if (
-        error.message.includes("quota") ||
-        error.message.includes("billing")
-      ) {
-        throw new Error(
-          "API quota exceeded - please check your OpenAI billing"
-        );
-      }
-      if (
-        error.message.includes("fetch failed") ||
-        error.message.includes("network")
-      ) {
-        throw new Error("Network error - please check your connection");
-      }
+/**
+ * Shared client, created on first use: importing this module must work
+ * without OPENAI_API_KEY (e.g. with a local embedding provider).
+ */
+export function getOpenAI(): OpenAI {
+  if (!client) {
+    if (!process.env.OPENAI_API_KEY) {
+      throw new Error("Missing OPENAI_API_KEY environment variable");
     }
-
-    throw new Error("Failed to generate embedding");
+    client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
   }
-}
-
-export async function generateEmbeddingsBatch(
-  texts: string[]
-): Promise<number[][]> {
-  // Split into chunks of 64 inputs to stay well under limits and reduce rate-limit pressure
-  const batchSize = 64;
-  const embeddings: number[][] = [];
-  for (let i = 0; i < texts.length; i += batchSize) {
-    const slice = texts
-      .slice(i, i + batchSize)
-      .map((t) => (t.length > 8000 ? t.substring(0, 8000) : t));
-    // Retry with backoff for resilience
-    let lastErr: unknown;
-    for (let attempt = 0; attempt < 6; attempt++) {
-      try {
-        const response = await openai.embeddings.create({
-          model: "text-embedding-3-small",
-          input: slice,
-          encoding_format: "float",
-        });
-        for (const row of response.data) embeddings.push(row.embedding);
-        lastErr = undefined;
-        break;
-      } catch (error) {
-        lastErr = error;
-        const jitter = Math.floor(Math.random() * 250);
-        const delay = 1000 * Math.pow(2, attempt) + jitter;
-        await new Promise((r) => setTimeout(r, delay));
-      }
-    }
-    if (lastErr) {
-      throw lastErr;
-    }
-    // Small pacing delay between batches
-    await new Promise((r) => setTimeout(r, 200));
-  }
-  return embeddings;
+  return client;
 }
 
 export async function generateChatResponse(
@@ -107,7 +34,7 @@ Instructions:
 - Reference specific details from the chat history when appropriate
 - If asked about specific people, dates, or events, look for that information in the context`;
 
-    const response = await openai.chat.completions.create({
+    const response = await getOpenAI().chat.completions.create({
       model: "gpt-4.1",
       messages: [
         { role: "system", content: systemPrompt },
@@ -129,3 +56,24 @@ Instructions:
     throw new Error("Failed to generate response");
   }
 }
+
+// Cheaper model for the offline summary layer (see lib/summaries)
+export const SUMMARY_MODEL = "gpt-4.1-mini";
+
+export async function generateSummary(
+  instructions: string,
+  text: string
+): Promise<string> {
+  const response = await getOpenAI().chat.completions.create({
+    model: SUMMARY_MODEL,
+    messages: [
+      { role: "system", content: instructions },
+      { role: "user", content: text },
+    ],
+    temperature: 0.2,
+    max_tokens: 600,
+  });
+  const summary = response.choices[0]?.message?.content?.trim();
+  if (!summary) throw new Error("Empty summary from the model");
+  return summary;
+}
@@ -1,6 +1,22 @@
+import { createHash } from "crypto";
 import { createClient } from "@/lib/supabase/server"
-import { generateEmbedding, generateEmbeddingsBatch } from "@/lib/openai";
+import {
+  embeddingRecord,
+  embedQuery,
+  generateEmbedding,
+  generateEmbeddingsBatch,
+  type QueryEmbedding,
+} from "@/lib/embeddings";
+import { getActiveEmbeddingProvider } from "@/lib/embedding-versions";
 import { formatChatDate } from "@/lib/utils";
+import { dayKey } from "@/lib/dates";
+import { createNoiseFilter, type NoiseFilter } from "@/lib/noise-filter";
+import {
+  formatSummariesForRAG,
+  searchSummaries,
+  summaryDetailChunks,
+} from "@/lib/summaries";
+import { countTokens, splitByTokens, TOKENIZER } from "@/lib/tokens";
 
 export interface ChatHistoryMatch {
   id: string;
@@ -68,12 +84,13 @@ export function formatContextForRAG(matches: ChatHistoryMatch[]): string {
 
 // New: formatter for chunk search results
 type ChunkSearchRow = {
-  id: string;
+  chunk_id: string;
   content: string;
   participants: string[];
   start_time: string | null;
   end_time: string | null;
   original_filename: string | null;
+  metadata: Record<string, unknown> | null;
   similarity: number;
 };
 
@@ -82,34 +99,137 @@ export function formatChunksForRAG(rows: ChunkSearchRow[]): string {
   const parts = rows.map((r, idx) => {
     const when = formatChatDate(r.start_time || r.end_time || null);
     const who = r.participants.join(", ");
+    const attachments = (
+      (r.metadata?.attachments as MessageAttachment[] | undefined) ?? []
+    ).map((a) => a.name);
+    const shared = attachments.length
+      ? `\nAttachments: ${attachments.join(", ")}`
+      : "";
+    // Later parts of a thread lose the question they answer without the root
+    const root = r.metadata?.thread_root as ThreadRoot | undefined;
+    const thread =
+      root && Number(r.metadata?.thread_part) > 0
+        ? `In thread started by ${root.participant} (${formatChatDate(
+            root.timestamp
+          )}): ${root.excerpt}\n`
+        : "";
     return `[${idx + 1}] ${who} (${when}) [${(r.similarity * 100).toFixed(
       1
-    )}%]:\n${r.content}`;
+    )}%]:\n${thread}${r.content}${shared}`;
   });
   return `Relevant chat history (chunked):\n\n${parts.join("\n\n")}`;
 }
 
 export async function processUserQuery(
   query: string,
-  userId: string
+  userId: string,
+  filters: ChunkSearchFilters = {}
 ): Promise<string> {
   try {
-    // Use hybrid chunk search going forward
-    const [rows, coverage] = await Promise.all([
-      hybridSearch(query, userId),
+    // Summaries first for the broad picture, then chunks for detail: the
+    // hybrid chunk search plus the best chunks under the top summaries.
+    // Summaries are not filtered, so a filtered query only searches chunks
+    const embedding = await embedQuery(
+      query,
+      await getActiveEmbeddingProvider(userId)
+    );
+    const [rows, summaries, coverage] = await Promise.all([
+      hybridSearch(query, userId, filters, embedding),
+      hasFilters(filters) ? [] : searchSummaries(embedding),
       getUserCorpusCoverage(),
     ]);
-    const context = formatChunksForRAG(rows as ChunkSearchRow[]);
+    const detail = await Promise.all(
+      summaries
+        .slice(0, SUMMARY_DRILL_DOWN)
+        .map((s) => summaryDetailChunks(embedding, s))
+    );
+    const context = formatChunksForRAG(
+      await expandSessions(
+        uniqueChunks([...(rows as ChunkSearchRow[]), ...detail.flat()])
+      )
+    );
     const coverageHeader = coverage
       ? `Corpus coverage: earliest ${coverage.earliest}, latest ${coverage.latest}, total chunks ${coverage.totalChunks}.\n\n`
       : "";
-    return coverageHeader + context;
+    return coverageHeader + formatSummariesForRAG(summaries) + context;
   } catch (error) {
     console.error("Error processing user query:", error);
     throw new Error("Failed to process query");
   }
 }
 
+// Top summaries whose chunks are searched for detail
+const SUMMARY_DRILL_DOWN = 2;
+
+function hasFilters(filters: ChunkSearchFilters): boolean {
+  return Object.values(filters).some((v) =>
+    Array.isArray(v) ? v.length > 0 : !!v
+  );
+}
+
+function uniqueChunks(rows: ChunkSearchRow[]): ChunkSearchRow[] {
+  const seen = new Set<string>();
+  return rows.filter((r) => !seen.has(r.chunk_id) && !!seen.add(r.chunk_id));
+}
+
+// How many of the top hits pull in their whole session, and its size cap
+const SESSION_EXPAND_HITS = 3;
+const SESSION_MAX_CHUNKS = 12;
+
+/**
+ * Put the rest of each top hit's conversation session right after it, so a
+ * question about one conversation gets all of it rather than one slice.
+ * Session chunks borrow the hit's similarity; chunks already in the results
+ * are not repeated.
+ */
+async function expandSessions(
+  rows: ChunkSearchRow[]
+): Promise<ChunkSearchRow[]> {
+  const sessionIds = Array.from(
+    new Set(
+      rows
+        .map((r) => r.metadata?.session_id)
+        .filter((id): id is string => typeof id === "string")
+    )
+  ).slice(0, SESSION_EXPAND_HITS);
+  if (sessionIds.length === 0) return rows;
+
+  const supabase = await createClient();
+  const sessions = new Map<string, Omit<ChunkSearchRow, "similarity">[]>();
+  await Promise.all(
+    sessionIds.map(async (id) => {
+      const { data, error } = await supabase.rpc("get_session_chunks", {
+        target_session_id: id,
+        max_chunks: SESSION_MAX_CHUNKS,
+      });
+      if (error) {
+        console.error("Error fetching session chunks:", error);
+        return;
+      }
+      sessions.set(id, data ?? []);
+    })
+  );
+
+  const seen = new Set<string>();
+  const result: ChunkSearchRow[] = [];
+  for (const row of rows) {
+    if (seen.has(row.chunk_id)) continue;
+    seen.add(row.chunk_id);
+    result.push(row);
+    const sessionId = row.metadata?.session_id as string | undefined;
+    const siblings = sessionId ? sessions.get(sessionId) : undefined;
+    if (!siblings) continue;
+    // Only expand a session once, at its best hit
+    sessions.delete(sessionId!);
+    for (const sibling of siblings) {
+      if (seen.has(sibling.chunk_id)) continue;
+      seen.add(sibling.chunk_id);
+      result.push({ ...sibling, similarity: row.similarity });
+    }
+  }
+  return result;
+}
+
 export async function checkForDuplicateMessage(
   userId: string,
   messageContent: string,
@@ -279,113 +399,628 @@ export async function embedChatHistoryEntry(
 // --- Chunking + hybrid search API ---
 
 function sha256(input: string): string {
-  // Simple browser/node compatible sha256 via SubtleCrypto if available; fallback to a cheap hash (collision-resistant not required for UX)
-  // For server-side Next.js, using Web Crypto API is fine, but to keep it simple here use a lightweight sync hash.
-  let hash = 0;
-  for (let i = 0; i < input.length; i++) {
-    hash = (hash << 5) - hash + input.charCodeAt(i);
-    hash |= 0;
-  }
-  return `h${Math.abs(hash)}`;
+  return createHash("sha256").update(input, "utf8").digest("hex");
 }
 
-type NormalizedMsg = {
+export type MessageAttachment = {
+  name: string;
+  // MIME type when the export has one
+  type: string | null;
+};
+
+export type NormalizedMsg = {
   content: string;
   timestamp: string | null;
+  // Original value from the export; set when the importer had one to parse
+  rawTimestamp?: string;
   participant: string;
   email?: string;
+  // Thread root identifier (e.g. Slack thread_ts), kept on the chunk metadata
+  threadId?: string;
+  // Id from the export when it has real ones (Google Chat message_id, Slack ts)
+  messageId?: string;
+  // Display names of @-mentioned people
+  mentions?: string[];
+  // Shared URLs the text does not spell out (link previews, Drive files);
+  // URLs in the text itself are picked up during chunking
+  links?: string[];
+  attachments?: MessageAttachment[];
+  // Addressees (email To/Cc); they count as chunk participants as well
+  recipients?: Array<{ name: string; email?: string }>;
 };
 
+const URL_PATTERN = /\bhttps?:\/\/[^\s<>"'`]+/g;
+
+function urlsInText(text: string): string[] {
+  return (text.match(URL_PATTERN) ?? []).map((url) =>
+    // Sentence punctuation and closing brackets are rarely part of the URL
+    url.replace(/[.,;:!?)\]]+$/, "")
+  );
+}
+
+// "thread" windows each thread (Google Chat topic, Slack thread, email
+// conversation) on its own; "sequential" packs messages in file order
+export type ChunkingMode = "thread" | "sequential";
+
+export type ChunkWindowOptions = {
+  mode?: ChunkingMode;
+  // Length of a text in tokens; the embedding model's tokenizer by default
+  tokenCounter?: (text: string) => number;
+  // Messages left out of chunks; the default rule packs when not given
+  noiseFilter?: NoiseFilter;
+} & ChunkSizing &
+  SessionOptions;
+
+/**
+ * Chunk size limits, in tokens of the embedding model, and how many messages
+ * neighbouring chunks share so a question spanning a boundary finds both
+ * halves. Overlap stays within a session and never exceeds half a chunk.
+ */
+export type ChunkSizing = {
+  targetTokens?: number;
+  minTokens?: number;
+  // Messages longer than this are split across chunks
+  maxTokens?: number;
+  overlapMessages?: number;
+};
+
+export const DEFAULT_CHUNK_SIZING: Required<ChunkSizing> = {
+  targetTokens: 250,
+  minTokens: 100,
+  maxTokens: 400,
+  overlapMessages: 1,
+};
+
+/**
+ * Where one conversation session ends and the next begins. A session break
+ * always closes the open chunk, however small it is.
+ */
+export type SessionOptions = {
+  // Silence (either direction, for out-of-order files) that ends a session
+  sessionGapMinutes?: number;
+  // Start a new session when the calendar day changes in timeZone
+  splitOnDayBoundary?: boolean;
+  // Someone new to the session speaking after this much silence starts a new
+  // one (0 disables); catches a group chat moving on to other people
+  participantChangeGapMinutes?: number;
+  // IANA zone for day boundaries (UTC by default)
+  timeZone?: string;
+};
+
+export const DEFAULT_SESSION_OPTIONS: Required<
+  Omit<SessionOptions, "timeZone">
+> = {
+  sessionGapMinutes: 60,
+  splitOnDayBoundary: true,
+  participantChangeGapMinutes: 15,
+};
+
+/** First message of a thread, kept on every chunk of that thread */
+export type ThreadRoot = {
+  message_id: string | null;
+  participant: string;
+  timestamp: string | null;
+  excerpt: string;
+};
+
+const THREAD_ROOT_EXCERPT_CHARS = 300;
+// A thread with no new message for this many messages is closed, so open
+// windows do not pile up on long streams; a late reply starts a new chunk
+const THREAD_IDLE_MESSAGES = 2000;
+
 export function windowMessagesIntoChunks(
   messages: NormalizedMsg[],
-  targetChars = 1000,
-  minChars = 400,
-  maxChars = 1600
+  options: ChunkWindowOptions = {}
 ) {
-  const chunks: Array<{
-    content: string;
-    start: string | null;
-    end: string | null;
-    participants: Set<string>;
-    participantEmails: Set<string>;
-    count: number;
-  }> = [];
+  const window = createChunkWindow(options);
+  const chunks = messages.flatMap((m) => window.add(m));
+  chunks.push(...window.finish());
+  return chunks;
+}
 
-  let current = {
+/**
+ * Incremental form of windowMessagesIntoChunks for message streams: add()
+ * returns the chunks a message completed (usually none), finish() the rest.
+ * In thread mode messages are grouped by threadId first and windowed within
+ * their thread; messages without one are windowed in order among themselves.
+ */
+export function createChunkWindow(options: ChunkWindowOptions = {}) {
+  const mode = options.mode ?? "thread";
+  const noise = options.noiseFilter ?? createNoiseFilter();
+  const settings = resolveChunkSettings(options);
+  const unthreaded = createSequentialWindow(options, null, settings);
+  if (mode === "sequential") {
+    return {
+      add: (m: NormalizedMsg) => (noise.match(m) ? [] : unthreaded.add(m)),
+      finish: unthreaded.finish,
+    };
+  }
+
+  const threads = new Map<
+    string,
+    { window: ReturnType<typeof createSequentialWindow>; lastSeen: number }
+  >();
+  const roots = new Map<string, ThreadRoot>();
+  // Ids of closed threads, whose root excerpts are let go with them; a late
+  // reply to one must not become its root
+  const closedThreads = new Set<string>();
+  let seen = 0;
+
+  const closeIdleThreads = () => {
+    const closed: ReturnType<typeof unthreaded.finish> = [];
+    for (const [threadId, thread] of threads) {
+      if (seen - thread.lastSeen < THREAD_IDLE_MESSAGES) continue;
+      closed.push(...thread.window.finish());
+      threads.delete(threadId);
+      roots.delete(threadId);
+      closedThreads.add(threadId);
+    }
+    return closed;
+  };
+
+  return {
+    add(m: NormalizedMsg) {
+      if (noise.match(m)) return [];
+      seen += 1;
+      const done = seen % 500 === 0 ? closeIdleThreads() : [];
+      if (!m.threadId) {
+        done.push(...unthreaded.add(m));
+        return done;
+      }
+      if (!roots.has(m.threadId) && !closedThreads.has(m.threadId)) {
+        roots.set(m.threadId, {
+          message_id: m.messageId ?? null,
+          participant: m.participant,
+          timestamp: m.timestamp,
+          excerpt: m.content.slice(0, THREAD_ROOT_EXCERPT_CHARS),
+        });
+      }
+      let thread = threads.get(m.threadId);
+      if (!thread) {
+        thread = {
+          window: createSequentialWindow(
+            options,
+            {
+              id: m.threadId,
+              root: () => roots.get(m.threadId!) ?? null,
+            },
+            settings
+          ),
+          lastSeen: seen,
+        };
+        threads.set(m.threadId, thread);
+      }
+      thread.lastSeen = seen;
+      done.push(...thread.window.add(m));
+      return done;
+    },
+    finish() {
+      const done = unthreaded.finish();
+      for (const thread of threads.values()) {
+        done.push(...thread.window.finish());
+      }
+      threads.clear();
+      return done;
+    },
+  };
+}
+
+/** The parameters that produced a chunk, stored as metadata.chunking */
+export type ChunkingSettings = {
+  mode: ChunkingMode;
+  tokenizer: string;
+  target_tokens: number;
+  min_tokens: number;
+  max_tokens: number;
+  overlap_messages: number;
+  session_gap_minutes: number;
+  split_on_day_boundary: boolean;
+  participant_change_gap_minutes: number;
+};
+
+function resolveChunkSettings(options: ChunkWindowOptions): ChunkingSettings {
+  const sizing = { ...DEFAULT_CHUNK_SIZING, ...definedOnly(options) };
+  const sessions = { ...DEFAULT_SESSION_OPTIONS, ...definedOnly(options) };
+  return {
+    mode: options.mode ?? "thread",
+    tokenizer: options.tokenCounter ? "custom" : TOKENIZER,
+    target_tokens: sizing.targetTokens,
+    min_tokens: sizing.minTokens,
+    max_tokens: sizing.maxTokens,
+    overlap_messages: sizing.overlapMessages,
+    session_gap_minutes: sessions.sessionGapMinutes,
+    split_on_day_boundary: sessions.splitOnDayBoundary,
+    participant_change_gap_minutes: sessions.participantChangeGapMinutes,
+  };
+}
+
+function definedOnly<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+}
+
+// A message, or one part of a message too long for a single chunk
+type Piece = { m: NormalizedMsg; part: number | null };
+
+/**
+ * Token-budget windowing over messages in order, split into sessions at
+ * conversation breaks; one per thread in thread mode
+ */
+function createSequentialWindow(
+  options: ChunkWindowOptions,
+  thread: { id: string; root: () => ThreadRoot | null } | null,
+  settings: ChunkingSettings = resolveChunkSettings(options)
+) {
+  const tokenCounter = options.tokenCounter ?? countTokens;
+  const timeZone = options.timeZone ?? "UTC";
+  const {
+    target_tokens: targetTokens,
+    min_tokens: minTokens,
+    max_tokens: maxTokens,
+    overlap_messages: overlapMessages,
+    session_gap_minutes: sessionGapMinutes,
+    split_on_day_boundary: splitOnDayBoundary,
+    participant_change_gap_minutes: participantChangeGapMinutes,
+  } = settings;
+
+  const emptyChunk = () => ({
     content: "",
+    tokens: 0,
     start: null as string | null,
     end: null as string | null,
     participants: new Set<string>(),
     participantEmails: new Set<string>(),
+    threadIds: new Set<string>(),
+    mentions: new Set<string>(),
+    links: new Set<string>(),
+    attachments: new Map<string, MessageAttachment>(),
+    messages: [] as ChunkMessageRef[],
+    // Last messages, to carry over as the next chunk's overlap
+    recent: [] as Piece[],
+    // Messages starting in this chunk; overlap does not count
     count: 0,
-  };
-
-  const pushCurrent = () => {
-    if (current.content.trim().length === 0) return;
-    chunks.push({
-      ...current,
-      participants: new Set(current.participants),
-      participantEmails: new Set(current.participantEmails),
-    });
-    current = {
-      content: "",
-      start: null,
-      end: null,
-      participants: new Set(),
-      participantEmails: new Set(),
-      count: 0,
-    };
-  };
+  });
 
-  const isTrivial = (t: string) =>
-    t.trim().length < 2 || /^(ok|k|lol|haha|thx|thanks|👍|👌)$/i.test(t.trim());
+  let current = emptyChunk();
+  // Position of the next chunk within its thread
+  let part = 0;
+  let session: {
+    id: string;
+    start: string | null;
+    lastTime: number;
+    day: string | null;
+    participants: Set<string>;
+  } | null = null;
 
-  for (const m of messages) {
-    if (!m.content || isTrivial(m.content)) continue;
-    const addition =
-      (current.content ? "\n" : "") + `${m.participant}: ${m.content}`;
-    if (
-      current.content.length + addition.length > maxChars &&
-      current.content.length >= minChars
-    ) {
-      pushCurrent();
+  // Whether m belongs to a new session rather than the open one
+  const isSessionBreak = (m: NormalizedMsg, time: number) => {
+    if (!session || isNaN(time) || isNaN(session.lastTime)) return false;
+    const gap = Math.abs(time - session.lastTime);
+    if (gap >= sessionGapMinutes * 60_000) return true;
+    if (splitOnDayBoundary && dayKey(time, timeZone) !== session.day) {
+      return true;
     }
+    return (
+      participantChangeGapMinutes > 0 &&
+      gap >= participantChangeGapMinutes * 60_000 &&
+      session.participants.size >= 2 &&
+      !session.participants.has(m.participant)
+    );
+  };
+
+  const append = ({ m, part }: Piece, tokens: number, overlap: boolean) => {
+    const line = `${m.participant}: ${m.content}`;
+    const separator = current.content ? "\n" : "";
+    const offset = current.content.length + separator.length;
     if (current.content.length === 0) {
       current.start = m.timestamp;
     }
-    current.content += addition;
+    current.messages.push({
+      message_id: m.messageId ?? null,
+      participant: m.participant,
+      timestamp: m.timestamp,
+      start: offset,
+      end: offset + line.length,
+      ...(part !== null ? { part } : {}),
+      ...(overlap ? { overlap: true } : {}),
+    });
+    current.content += separator + line;
+    current.tokens += tokens;
     current.end = m.timestamp;
     current.participants.add(m.participant);
     if (m.email) current.participantEmails.add(m.email);
-    current.count += 1;
-    if (current.content.length >= targetChars) {
-      pushCurrent();
+    for (const r of m.recipients ?? []) {
+      current.participants.add(r.name);
+      if (r.email) current.participantEmails.add(r.email);
+    }
+    if (m.threadId) current.threadIds.add(m.threadId);
+    for (const name of m.mentions ?? []) current.mentions.add(name);
+    for (const url of [...(m.links ?? []), ...urlsInText(m.content)]) {
+      current.links.add(url);
+    }
+    for (const a of m.attachments ?? []) current.attachments.set(a.name, a);
+    // A split message counts once, at its first part
+    if (!overlap && !part) current.count += 1;
+    current.recent.push({ m, part });
+    if (current.recent.length > overlapMessages) current.recent.shift();
+  };
+
+  const isOverlapOnly = () => current.messages.every((r) => r.overlap);
+
+  // Start the next chunk with the tail of the previous one
+  const carryOver = (recent: Piece[]) => {
+    const seed = recent.map((piece) => ({
+      piece,
+      tokens: tokenCounter(`\n${piece.m.participant}: ${piece.m.content}`),
+    }));
+    while (
+      seed.length > 0 &&
+      seed.reduce((sum, s) => sum + s.tokens, 0) > maxTokens / 2
+    ) {
+      seed.shift();
+    }
+    for (const { piece, tokens } of seed) append(piece, tokens, true);
+  };
+
+  // Messages over the token limit become several consecutive pieces
+  const pieces = (m: NormalizedMsg): Piece[] => {
+    const prefix = tokenCounter(`\n${m.participant}: `);
+    if (prefix + tokenCounter(m.content) <= maxTokens) {
+      return [{ m, part: null }];
     }
+    return splitByTokens(m.content, Math.max(1, maxTokens - prefix)).map(
+      (content, part) => ({ m: { ...m, content }, part })
+    );
+  };
+
+  const takeCurrent = (overlap: boolean) => {
+    const c = current;
+    current = emptyChunk();
+    // A chunk holding only the previous chunk's overlap adds nothing
+    if (c.messages.every((r) => r.overlap)) return [];
+    if (overlap && overlapMessages > 0) carryOver(c.recent);
+    return [
+      {
+        content: c.content,
+        start: c.start,
+        end: c.end,
+        participants: Array.from(c.participants),
+        participantEmails: Array.from(c.participantEmails),
+        threadIds: Array.from(c.threadIds),
+        threadId: thread?.id ?? null,
+        threadRoot: thread?.root() ?? null,
+        threadPart: thread ? part++ : null,
+        sessionId: session?.id ?? null,
+        sessionStart: session?.start ?? null,
+        mentions: Array.from(c.mentions),
+        links: Array.from(c.links),
+        attachments: Array.from(c.attachments.values()),
+        messages: c.messages,
+        tokens: c.tokens,
+        settings,
+        count: c.count,
+      },
+    ];
+  };
+
+  return {
+    add(m: NormalizedMsg) {
+      const done: ReturnType<typeof takeCurrent> = [];
+
+      const time = m.timestamp ? Date.parse(m.timestamp) : NaN;
+      if (isSessionBreak(m, time)) {
+        done.push(...takeCurrent(false));
+        session = null;
+      }
+      if (!session) {
+        session = {
+          // Stable across re-imports of the same messages
+          id: `s${sha256(
+            `${thread?.id ?? ""}|${m.messageId ?? ""}|${m.timestamp}|${m.participant}`
+          )}`,
+          start: m.timestamp,
+          lastTime: time,
+          day: isNaN(time) ? null : dayKey(time, timeZone),
+          participants: new Set(),
+        };
+      }
+      if (!isNaN(time)) {
+        session.lastTime = time;
+        session.day = dayKey(time, timeZone);
+      }
+      session.participants.add(m.participant);
+
+      for (const piece of pieces(m)) {
+        const tokens = tokenCounter(
+          `\n${piece.m.participant}: ${piece.m.content}`
+        );
+        if (
+          !isOverlapOnly() &&
+          current.tokens + tokens > maxTokens &&
+          current.tokens >= minTokens
+        ) {
+          done.push(...takeCurrent(true));
+        }
+        // Overlap gives way to a message that needs the whole chunk
+        if (isOverlapOnly() && current.tokens + tokens > maxTokens) {
+          current = emptyChunk();
+        }
+        append(piece, tokens, false);
+        if (current.tokens >= targetTokens) {
+          done.push(...takeCurrent(true));
+        }
+      }
+      return done;
+    },
+    finish() {
+      return takeCurrent(false);
+    },
+  };
+}
+
+export type ChunkInput = {
+  content: string;
+  start: string | null;
+  end: string | null;
+  participants: string[];
+  participantEmails?: string[];
+  threadIds?: string[];
+  // Set in thread chunking mode
+  threadId?: string | null;
+  threadRoot?: ThreadRoot | null;
+  threadPart?: number | null;
+  // Conversation session the chunk belongs to (see SessionOptions)
+  sessionId?: string | null;
+  sessionStart?: string | null;
+  mentions?: string[];
+  links?: string[];
+  attachments?: MessageAttachment[];
+  // Source messages in content order
+  messages?: ChunkMessageRef[];
+  tokens?: number;
+  settings?: ChunkingSettings;
+  // Messages starting in the chunk, not counting overlap from the previous one
+  count: number;
+};
+
+/** Where one source message sits in a chunk's content */
+export type ChunkMessageRef = {
+  // Id from the export; null when it has none
+  message_id: string | null;
+  participant: string;
+  timestamp: string | null;
+  // content.slice(start, end) is the message's "participant: text" line
+  start: number;
+  end: number;
+  // Repeated from the previous chunk for context
+  overlap?: boolean;
+  // Position of this piece when a long message was split across chunks
+  part?: number;
+};
+
+/** A chunk's source messages with their text, from its stored metadata */
+export function chunkSourceMessages(chunk: {
+  content: string;
+  metadata: Record<string, unknown> | null;
+}): Array<ChunkMessageRef & { text: string }> {
+  const refs = (chunk.metadata?.source_messages ?? []) as ChunkMessageRef[];
+  return refs.map((ref) => {
+    const line = chunk.content.slice(ref.start, ref.end);
+    const prefix = `${ref.participant}: `;
+    return {
+      ...ref,
+      text: line.startsWith(prefix) ? line.slice(prefix.length) : line,
+    };
+  });
+}
+
+/**
+ * Chunk-level metadata on top of the source metadata. Besides the raw lists,
+ * link domains and attachment types are stored flat so search can filter on
+ * them with jsonb containment (see search_chat_chunks_hybrid).
+ */
+function chunkMetadata(
+  metadata: Record<string, unknown>,
+  c: ChunkInput
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...metadata };
+  if (c.threadIds?.length) result.thread_ids = c.threadIds;
+  if (c.threadId) {
+    result.thread_id = c.threadId;
+    result.thread_part = c.threadPart ?? 0;
+    if (c.threadRoot) result.thread_root = c.threadRoot;
+  }
+  if (c.sessionId) {
+    result.session_id = c.sessionId;
+    result.session_start = c.sessionStart;
+  }
+  if (c.messages?.length) {
+    result.source_messages = c.messages;
+    // Flat, so chunks holding a message are found by jsonb containment
+    const ids = c.messages
+      .map((m) => m.message_id)
+      .filter((id): id is string => !!id);
+    if (ids.length) result.message_ids = ids;
+  }
+  if (c.settings) result.chunking = c.settings;
+  if (c.tokens) result.token_count = c.tokens;
+  if (c.mentions?.length) result.mentions = c.mentions;
+  if (c.links?.length) {
+    result.links = c.links;
+    result.link_domains = Array.from(
+      new Set(c.links.map(linkDomain).filter((d): d is string => !!d))
+    );
+  }
+  if (c.attachments?.length) {
+    result.attachments = c.attachments;
+    result.attachment_types = Array.from(
+      new Set(c.attachments.map(attachmentType))
+    );
+  }
+  return result;
+}
+
+function linkDomain(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, "").toLowerCase();
+  } catch {
+    return null;
   }
-  pushCurrent();
+}
 
-  return chunks.map((c) => ({
-    content: c.content,
-    start: c.start,
-    end: c.end,
-    participants: Array.from(c.participants),
-    participantEmails: Array.from(c.participantEmails),
-    count: c.count,
-  }));
+// File extension when the name has one ("pdf"), otherwise the MIME subtype
+function attachmentType(a: MessageAttachment): string {
+  const ext = a.name.match(/\.([A-Za-z0-9]{1,8})$/);
+  if (ext) return ext[1].toLowerCase();
+  return a.type?.split("/").pop()?.toLowerCase() || "file";
 }
 
 export async function upsertChunksAndEmbed(
   userId: string,
-  chunks: Array<{
-    content: string;
-    start: string | null;
-    end: string | null;
-    participants: string[];
-    participantEmails?: string[];
-    count: number;
-  }>,
-  originalFilename?: string
+  chunks: ChunkInput[],
+  originalFilename?: string,
+  metadata: Record<string, unknown> = {}
 ) {
+  const inserted = await upsertChunks(
+    userId,
+    chunks,
+    originalFilename,
+    metadata
+  );
+  const { chunks: embedded } = await embedMissingChunks(userId);
+  return { inserted, embedded };
+}
+
+/**
+ * Dedupe key of a chunk (chat_chunks.chunk_hash), unique per user. Times are
+ * hashed as UTC ISO strings so a chunk read back from the DB hashes the same
+ * as at ingest; chunk_content_hash (020_chunk_hash_rehash.sql) is the SQL
+ * twin and must stay in step with this.
+ */
+export function chunkHash(
+  c: Pick<ChunkInput, "participants" | "start" | "end" | "content">
+): string {
+  const iso = (value: string | null) => {
+    const time = value ? Date.parse(value) : NaN;
+    return isNaN(time) ? "" : new Date(time).toISOString();
+  };
+  return sha256(
+    `${c.participants.join(",")}|${iso(c.start)}|${iso(c.end)}|${c.content}`
+  );
+}
+
+/**
+ * Insert chunks without embeddings. A chunk the user already has (same hash)
+ * is kept as it is; other users' chunks never conflict.
+ */
+export async function upsertChunks(
+  userId: string,
+  chunks: ChunkInput[],
+  originalFilename?: string,
+  metadata: Record<string, unknown> = {},
+  sourceId?: string
+): Promise<number> {
   const supabase = await createClient();
 
   // Compute hashes for dedupe
@@ -395,13 +1030,12 @@ export async function upsertChunksAndEmbed(
     end: c.end,
     participants: c.participants,
     participantEmails: c.participantEmails ?? [],
-    hash: sha256(
-      `${c.participants.join(",")}|${c.start}|${c.end}|${c.content}`
-    ),
+    metadata: chunkMetadata(metadata, c),
+    hash: chunkHash(c),
     message_count: c.count,
   }));
 
-  // Insert or ignore existing by unique hash (batched to avoid timeouts)
+  // Insert or ignore existing by (user, hash) (batched to avoid timeouts)
   let insertedCount = 0;
   const insertBatchSize = 400;
   for (let i = 0; i < rows.length; i += insertBatchSize) {
@@ -415,63 +1049,233 @@ export async function upsertChunksAndEmbed(
       end_time: r.end,
       message_count: r.message_count,
       original_filename: originalFilename,
+      metadata: r.metadata,
+      ...(sourceId ? { source_id: sourceId } : {}),
     }));
     const { data, error } = await supabase
       .from("chat_chunks")
-      .upsert(slice, { onConflict: "chunk_hash" })
+      .upsert(slice, {
+        onConflict: "user_id,chunk_hash",
+        ignoreDuplicates: true,
+      })
       .select("id");
     if (error) throw error;
     insertedCount += data?.length ?? 0;
   }
 
-  // Find rows missing embeddings and process in pages
-  let totalEmbedded = 0;
-  const pageSize = 1000;
+  return insertedCount;
+}
+
+/** Timings of an embedMissingChunks run, reported by ingest jobs */
+export interface EmbeddingThroughput {
+  chunks: number;
+  batches: number;
+  // Time spent waiting on the embedding provider
+  embed_ms: number;
+  // Time spent in set_chunk_embeddings calls, which overlap embedding
+  write_ms: number;
+  elapsed_ms: number;
+  chunks_per_second: number;
+}
+
+export function mergeEmbeddingThroughput(
+  a: EmbeddingThroughput | undefined,
+  b: EmbeddingThroughput
+): EmbeddingThroughput {
+  if (!a) return b;
+  const chunks = a.chunks + b.chunks;
+  const elapsed = a.elapsed_ms + b.elapsed_ms;
+  return {
+    chunks,
+    batches: a.batches + b.batches,
+    embed_ms: a.embed_ms + b.embed_ms,
+    write_ms: a.write_ms + b.write_ms,
+    elapsed_ms: elapsed,
+    chunks_per_second: elapsed > 0 ? (chunks * 1000) / elapsed : 0,
+  };
+}
+
+// Chunks read per query, and embedded and written per batch: small enough
+// for one request body (vectors travel as text), large enough to keep
+// round trips down
+const EMBED_PAGE_SIZE = 1000;
+const EMBED_WRITE_BATCH = 128;
+
+/**
+ * Embed every chunk of the user that has no embedding yet. Safe to re-run
+ * after an interruption: it only ever picks up rows still missing a vector.
+ * Embedding and writing are pipelined: the next batch is embedded while the
+ * previous one is stored with one set_chunk_embeddings call.
+ */
+export async function embedMissingChunks(
+  userId: string,
+  onProgress?: (embedded: number) => Promise<void> | void
+): Promise<EmbeddingThroughput> {
+  const supabase = await createClient();
+  const embedder = await getActiveEmbeddingProvider(userId);
+  const record = embeddingRecord(embedder);
+  const started = Date.now();
+  const stats = { chunks: 0, batches: 0, embed_ms: 0, write_ms: 0 };
+
+  let writing: Promise<void> | null = null;
+  // Kept here rather than left on the promise, so a failed write is not an
+  // unhandled rejection while the next batch is being embedded
+  let writeError: unknown = null;
+  const write = async (
+    batch: Array<{ id: string; chunk_hash: string }>,
+    vectors: number[][]
+  ) => {
+    const writeStart = Date.now();
+    // The hash guard skips chunks edited since they were read
+    const { data: written, error } = await supabase.rpc(
+      "set_chunk_embeddings",
+      {
+        target_ids: batch.map((r) => r.id),
+        target_hashes: batch.map((r) => r.chunk_hash),
+        embeddings: vectors.map((v) => JSON.stringify(v)),
+        model: record.embedding_model,
+        dimensions: record.embedding_dimensions,
+      }
+    );
+    if (error) throw error;
+    stats.write_ms += Date.now() - writeStart;
+    stats.chunks += (written as number | null) ?? 0;
+    stats.batches += 1;
+    await onProgress?.(stats.chunks);
+  };
+  const settle = async () => {
+    await writing;
+    writing = null;
+    if (writeError) throw writeError;
+  };
+
+  // Keyset paging, so the next page can be read while writes are pending
+  let lastId: string | null = null;
   for (;;) {
-    const { data: page, error: selErr } = await supabase
+    let query = supabase
       .from("chat_chunks")
-      .select("id, content")
+      .select("id, chunk_hash, content")
       .eq("user_id", userId)
       .is("embedding", null)
-      .limit(pageSize);
+      .order("id")
+      .limit(EMBED_PAGE_SIZE);
+    if (lastId) query = query.gt("id", lastId);
+    const { data: page, error: selErr } = await query;
 
     if (selErr) throw selErr;
     if (!page || page.length === 0) break;
+    lastId = page[page.length - 1].id;
 
-    const embeddings = await generateEmbeddingsBatch(
-      page.map((r) => r.content)
-    );
+    for (let i = 0; i < page.length; i += EMBED_WRITE_BATCH) {
+      const batch = page.slice(i, i + EMBED_WRITE_BATCH);
+      const embedStart = Date.now();
+      const vectors = await generateEmbeddingsBatch(
+        batch.map((r) => r.content),
+        embedder
+      );
+      stats.embed_ms += Date.now() - embedStart;
+      await settle();
+      writing = write(batch, vectors).catch((error) => {
+        writeError = error;
+      });
+    }
+  }
+  await settle();
 
-    // Batch updates in small groups to avoid payload size/timeouts
-    const updateBatchSize = 200;
-    for (let i = 0; i < page.length; i += updateBatchSize) {
-      const sliceIds = page.slice(i, i + updateBatchSize).map((r) => r.id);
-      const sliceEmb = embeddings.slice(i, i + updateBatchSize);
-      // Update each row; Supabase bulk update by array not natively supported unless using RPC
-      for (let k = 0; k < sliceIds.length; k++) {
-        const { error: updErr } = await supabase
-          .from("chat_chunks")
-          .update({ embedding: sliceEmb[k] as unknown as number[] })
-          .eq("id", sliceIds[k]);
-        if (updErr) throw updErr;
-      }
-      totalEmbedded += sliceIds.length;
+  const elapsed = Date.now() - started;
+  return {
+    ...stats,
+    elapsed_ms: elapsed,
+    chunks_per_second: elapsed > 0 ? (stats.chunks * 1000) / elapsed : 0,
+  };
+}
+
+// Restrict search to chunks that mention all of these people, link to these
+// domains or carry these attachment types (extension, e.g. "pdf")
+export type ChunkSearchFilters = {
+  mentions?: string[];
+  linkDomains?: string[];
+  attachmentTypes?: string[];
+  // One discussion: every chunk of a thread (see thread chunking mode)
+  threadId?: string;
+  // One conversation session (see SessionOptions)
+  sessionId?: string;
+};
+
+/** Validate search filters from a request; absent means no filters */
+export function parseChunkSearchFilters(
+  value: unknown
+): { filters: ChunkSearchFilters } | { error: string } {
+  if (value === undefined || value === null) return { filters: {} };
+  if (typeof value !== "object" || Array.isArray(value)) {
+    return { error: "filters must be an object" };
+  }
+  const input = value as Record<string, unknown>;
+  for (const key of ["mentions", "linkDomains", "attachmentTypes"]) {
+    const list = input[key];
+    if (
+      list !== undefined &&
+      (!Array.isArray(list) || list.some((v) => typeof v !== "string"))
+    ) {
+      return { error: `filters.${key} must be an array of strings` };
     }
   }
+  for (const key of ["threadId", "sessionId"]) {
+    if (input[key] !== undefined && typeof input[key] !== "string") {
+      return { error: `filters.${key} must be a string` };
+    }
+  }
+  return {
+    filters: {
+      mentions: input.mentions as string[] | undefined,
+      linkDomains: input.linkDomains as string[] | undefined,
+      attachmentTypes: input.attachmentTypes as string[] | undefined,
+      threadId: input.threadId as string | undefined,
+      sessionId: input.sessionId as string | undefined,
+    },
+  };
+}
 
-  return { inserted: insertedCount, embedded: totalEmbedded };
+function metadataFilter(
+  filters: ChunkSearchFilters
+): Record<string, string | string[]> | null {
+  const filter: Record<string, string | string[]> = {};
+  if (filters.threadId) filter.thread_id = filters.threadId;
+  if (filters.sessionId) filter.session_id = filters.sessionId;
+  if (filters.mentions?.length) filter.mentions = filters.mentions;
+  if (filters.linkDomains?.length) {
+    filter.link_domains = filters.linkDomains.map((d) =>
+      d.replace(/^www\./, "").toLowerCase()
+    );
+  }
+  if (filters.attachmentTypes?.length) {
+    filter.attachment_types = filters.attachmentTypes.map((t) =>
+      t.replace(/^\./, "").toLowerCase()
+    );
+  }
+  return Object.keys(filter).length ? filter : null;
 }
 
-export async function hybridSearch(query: string, userId: string) {
+export async function hybridSearch(
+  query: string,
+  userId: string,
+  filters: ChunkSearchFilters = {},
+  queryEmbedding?: QueryEmbedding
+) {
   const supabase = await createClient();
-  const embed = await generateEmbedding(query);
+  const embed =
+    queryEmbedding ??
+    (await embedQuery(query, await getActiveEmbeddingProvider(userId)));
   const { data, error } = await supabase.rpc("search_chat_chunks_hybrid", {
     query_text: query,
-    query_embedding: embed,
+    query_embedding: embed.embedding,
+    query_embedding_model: embed.model,
+    query_embedding_dimensions: embed.dimensions,
     match_threshold: 0.2,
     lexical_limit: 5000,
     final_k: 50,
     target_user_id: userId,
+    metadata_filter: metadataFilter(filters),
   });
   if (error) throw error;
   return data ?? [];
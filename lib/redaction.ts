@@ -0,0 +1,221 @@
+import { createHmac } from "crypto";
+import type { NormalizedMsg } from "@/lib/rag";
+
+// mask: [EMAIL]; hash: [EMAIL:1a2b3c4d] (stable per value, so mentions of the
+// same number still line up); drop: the whole message is left out
+export type RedactionMode = "off" | "mask" | "hash" | "drop";
+
+export interface RedactionDetector {
+  id: string;
+  label: string;
+  pattern: RegExp;
+  // Extra check on a regex match, e.g. Luhn for card numbers
+  validate?: (match: string) => boolean;
+  // Canonical form used for hashing, so "+1 415 555 2671" and
+  // "+1 (415) 555-2671" get the same token
+  normalize?: (match: string) => string;
+}
+
+export interface RedactionConfig {
+  mode: RedactionMode;
+  // Detector ids to run; empty means all built-in detectors
+  detectors: string[];
+  // Exact values (case-insensitive), "@domain.com" for emails, or /regex/
+  allowList: string[];
+}
+
+export type RedactionCounts = Record<string, number>;
+
+const digitsOnly = (s: string) => s.replace(/\D/g, "");
+
+function luhnValid(value: string): boolean {
+  const digits = digitsOnly(value);
+  if (digits.length < 13 || digits.length > 19) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+// Order matters: card numbers must be claimed before the phone detector
+export const BUILTIN_DETECTORS: RedactionDetector[] = [
+  {
+    id: "email",
+    label: "EMAIL",
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  },
+  {
+    id: "credit_card",
+    label: "CARD",
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    validate: luhnValid,
+    normalize: digitsOnly,
+  },
+  {
+    id: "iban",
+    label: "IBAN",
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+  },
+  {
+    id: "ssn",
+    label: "SSN",
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g,
+  },
+  {
+    id: "phone",
+    label: "PHONE",
+    pattern:
+      /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{1,4}\)[\s.-]?)?\d{2,4}(?:[\s.-]?\d{2,4}){2,3}\b/g,
+    // Short digit runs are years, times and ticket numbers, not phones;
+    // "2019-05-12 10" and "12.05.2019 10" are a date followed by an hour
+    validate: (match) => {
+      if (/^\d{4}-\d{2}-\d{2}|^\d{1,2}\.\d{1,2}\.\d{2,4}/.test(match)) {
+        return false;
+      }
+      const digits = digitsOnly(match);
+      return digits.length >= 9 && digits.length <= 15;
+    },
+    normalize: digitsOnly,
+  },
+  {
+    id: "street_address",
+    label: "ADDRESS",
+    pattern:
+      /\b\d{1,5}\s+(?:[A-Z][a-z]+\s+){1,3}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Place|Pl|Way|Terrace|Straße|Strasse|Rue)\b\.?/g,
+  },
+];
+
+export const DEFAULT_REDACTION_CONFIG: RedactionConfig = {
+  mode: (process.env.PII_REDACTION_MODE as RedactionMode) || "off",
+  detectors: [],
+  allowList: (process.env.PII_REDACTION_ALLOW_LIST || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean),
+};
+
+function isAllowed(value: string, allowList: string[]): boolean {
+  const lower = value.toLowerCase();
+  return allowList.some((entry) => {
+    if (entry.length > 2 && entry.startsWith("/") && entry.endsWith("/")) {
+      try {
+        return new RegExp(entry.slice(1, -1), "i").test(value);
+      } catch {
+        return false;
+      }
+    }
+    const e = entry.toLowerCase();
+    if (e.startsWith("@")) return lower.endsWith(e);
+    return lower === e;
+  });
+}
+
+/** Why a redaction config cannot be applied, or null when it can */
+export function redactionConfigError(config: RedactionConfig): string | null {
+  const unknown = config.detectors.filter(
+    (id) => !BUILTIN_DETECTORS.some((d) => d.id === id)
+  );
+  if (unknown.length > 0) {
+    return `Unknown redaction detectors: ${unknown.join(", ")}`;
+  }
+  if (config.mode === "hash" && !process.env.PII_HASH_SECRET) {
+    return "Hash redaction requires PII_HASH_SECRET on the server; use mask instead";
+  }
+  return null;
+}
+
+// Without a secret the short tokens of phone numbers and emails could be
+// brute-forced back to their values
+function hashToken(value: string): string {
+  const secret = process.env.PII_HASH_SECRET;
+  if (!secret) throw new Error("PII_HASH_SECRET is not set");
+  return createHmac("sha256", secret)
+    .update(value.toLowerCase())
+    .digest("hex")
+    .slice(0, 8);
+}
+
+/**
+ * Redact one text. Returns the rewritten text and what was found; callers in
+ * "drop" mode discard the message when anything was found.
+ */
+export function redactText(
+  text: string,
+  config: RedactionConfig
+): { text: string; counts: RedactionCounts } {
+  const counts: RedactionCounts = {};
+  if (config.mode === "off") return { text, counts };
+
+  const detectors = config.detectors.length
+    ? BUILTIN_DETECTORS.filter((d) => config.detectors.includes(d.id))
+    : BUILTIN_DETECTORS;
+
+  let result = text;
+  for (const detector of detectors) {
+    result = result.replace(detector.pattern, (match) => {
+      if (detector.validate && !detector.validate(match)) return match;
+      if (isAllowed(match, config.allowList)) return match;
+      counts[detector.id] = (counts[detector.id] ?? 0) + 1;
+      return config.mode === "hash"
+        ? `[${detector.label}:${hashToken(
+            detector.normalize ? detector.normalize(match) : match
+          )}]`
+        : `[${detector.label}]`;
+    });
+  }
+  return { text: result, counts };
+}
+
+/** Redaction stage between import normalization and chunking */
+export function redactMessages(
+  messages: NormalizedMsg[],
+  config: RedactionConfig
+): { messages: NormalizedMsg[]; counts: RedactionCounts; dropped: number } {
+  if (config.mode === "off") return { messages, counts: {}, dropped: 0 };
+
+  const totals: RedactionCounts = {};
+  const kept: NormalizedMsg[] = [];
+  let dropped = 0;
+  for (const m of messages) {
+    // Shared links and file names can carry PII as well (mailto:, query
+    // strings, "passport-scan-jane-doe.pdf")
+    const found: RedactionCounts[] = [];
+    const redact = (value: string) => {
+      const result = redactText(value, config);
+      found.push(result.counts);
+      return result.text;
+    };
+    const content = redact(m.content);
+    const links = m.links?.map(redact);
+    const attachments = m.attachments?.map((a) => ({
+      ...a,
+      name: redact(a.name),
+    }));
+
+    const counts = found.reduce(mergeRedactionCounts, {});
+    for (const [id, n] of Object.entries(counts)) {
+      totals[id] = (totals[id] ?? 0) + n;
+    }
+    if (config.mode === "drop" && Object.keys(counts).length > 0) {
+      dropped += 1;
+      continue;
+    }
+    kept.push({ ...m, content, links, attachments });
+  }
+  return { messages: kept, counts: totals, dropped };
+}
+
+export function mergeRedactionCounts(
+  a: RedactionCounts,
+  b: RedactionCounts
+): RedactionCounts {
+  const merged = { ...a };
+  for (const [id, n] of Object.entries(b)) merged[id] = (merged[id] ?? 0) + n;
+  return merged;
+}
@@ -0,0 +1,393 @@
+import { createHash } from "crypto";
+import { createClient } from "@/lib/supabase/server";
+import { UPLOAD_BUCKET, type IngestJob } from "@/lib/ingest-jobs";
+import type { ImportedSource, StreamedSource } from "@/lib/importers";
+import type { NormalizedMsg } from "@/lib/rag";
+import { mergeRedactionCounts, type RedactionCounts } from "@/lib/redaction";
+import { getWorkspaceSettings } from "@/lib/workspace-settings";
+
+export interface ChatSource {
+  id: string;
+  user_id: string;
+  source_key: string;
+  filename: string;
+  label: string | null;
+  importer: string | null;
+  metadata: Record<string, unknown>;
+  ingest_job_id: string | null;
+  storage_path: string | null;
+  last_message_id: string | null;
+  last_message_at: string | null;
+  redaction_counts: RedactionCounts;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ChatSourceSummary {
+  id: string;
+  filename: string;
+  label: string | null;
+  importer: string | null;
+  metadata: Record<string, unknown>;
+  created_at: string;
+  updated_at: string;
+  can_reindex: boolean;
+  last_message_at: string | null;
+  redaction_counts: RedactionCounts;
+  chunk_count: number;
+  message_count: number;
+  earliest: string | null;
+  latest: string | null;
+}
+
+export async function listChatSources(): Promise<ChatSourceSummary[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("list_chat_sources");
+  if (error) throw error;
+  return (data as ChatSourceSummary[]) ?? [];
+}
+
+export async function getChatSource(
+  sourceId: string
+): Promise<ChatSource | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("chat_sources")
+    .select("*")
+    .eq("id", sourceId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as ChatSource) ?? null;
+}
+
+// Exports grow at the end, so the first message of a file export stays the
+// same when a newer export of the same chat is uploaded
+function fileSourceKey(filename: string, first: NormalizedMsg | undefined) {
+  const name = (filename.split("/").pop() ?? filename).replace(
+    /\s*\(\d+\)(?=\.[^.]+$|$)/,
+    ""
+  );
+  if (!first) return `file:${name}`;
+  const identity =
+    first.messageId ??
+    `${first.participant}|${first.rawTimestamp ?? first.timestamp ?? ""}|${first.content}`;
+  const hash = createHash("sha256").update(identity, "utf8").digest("hex");
+  return `file:${name}#${hash.slice(0, 16)}`;
+}
+
+/**
+ * Identity of an imported source across uploads. Importers supply one when the
+ * export names its space/channel. Otherwise the filename (minus browser "(1)"
+ * copy suffixes) plus a hash of the first message is the lineage: generic
+ * names like messages.json are shared by unrelated chats.
+ */
+export function sourceKeyFor(
+  source: Pick<ImportedSource, "sourceKey" | "filename" | "messages">
+): string {
+  return source.sourceKey ?? fileSourceKey(source.filename, source.messages[0]);
+}
+
+/**
+ * Whether a stored source row is this source. Rows stored before file keys
+ * carried the message hash only have the bare filename key.
+ */
+export function isSameSource(storedKey: string, sourceKey: string): boolean {
+  return (
+    storedKey === sourceKey ||
+    (storedKey.startsWith("file:") &&
+      sourceKey.replace(/#[0-9a-f]{16}$/, "") === storedKey)
+  );
+}
+
+/** sourceKeyFor for a streamed source; reads only its first message */
+export async function streamedSourceKeyFor(
+  source: StreamedSource
+): Promise<string> {
+  if (source.sourceKey) return source.sourceKey;
+  for await (const m of source.messages()) {
+    return fileSourceKey(source.filename, m);
+  }
+  return fileSourceKey(source.filename, undefined);
+}
+
+export async function getChatSourceByKey(
+  userId: string,
+  sourceKey: string
+): Promise<ChatSource | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("chat_sources")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("source_key", sourceKey)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as ChatSource) ?? null;
+}
+
+/**
+ * Messages of a re-uploaded source that come after what was ingested last
+ * time. The last message id is located in the new upload first; failing
+ * that, id-keyed sources (a Takeout group, a Slack channel) fall back to the
+ * timestamp. A file-lineage source whose last id is not in the upload is
+ * treated as unrelated and processed in full, relying on chunk_hash dedupe.
+ */
+export function messagesAfterHighWaterMark(
+  existing: ChatSource | null,
+  messages: NormalizedMsg[]
+): { messages: NormalizedMsg[]; skipped: number } {
+  if (!existing || (!existing.last_message_id && !existing.last_message_at)) {
+    return { messages, skipped: 0 };
+  }
+
+  if (existing.last_message_id) {
+    const index = messages.findIndex(
+      (m) => m.messageId === existing.last_message_id
+    );
+    if (index >= 0) {
+      return { messages: messages.slice(index + 1), skipped: index + 1 };
+    }
+  }
+
+  if (existing.last_message_at && !existing.source_key.startsWith("file:")) {
+    const mark = Date.parse(existing.last_message_at);
+    const fresh = messages.filter(
+      (m) => !m.timestamp || Date.parse(m.timestamp) > mark
+    );
+    return { messages: fresh, skipped: messages.length - fresh.length };
+  }
+
+  return { messages, skipped: 0 };
+}
+
+/**
+ * Streaming counterpart of messagesAfterHighWaterMark. A first pass over the
+ * source counts its messages and looks for the last ingested message id;
+ * `keep` then applies the same rules to each message of a second pass.
+ */
+export async function streamHighWaterFilter(
+  existing: ChatSource | null,
+  source: StreamedSource,
+  onProgress?: (scanned: number) => Promise<void> | void
+): Promise<{
+  total: number;
+  keep: (m: NormalizedMsg, index: number) => boolean;
+}> {
+  let total = 0;
+  let markIndex = -1;
+  for await (const m of source.messages()) {
+    if (
+      markIndex < 0 &&
+      existing?.last_message_id &&
+      m.messageId === existing.last_message_id
+    ) {
+      markIndex = total;
+    }
+    total += 1;
+    if (total % 10_000 === 0) await onProgress?.(total);
+  }
+
+  if (markIndex >= 0) {
+    return { total, keep: (_m, index) => index > markIndex };
+  }
+  if (existing?.last_message_at && !existing.source_key.startsWith("file:")) {
+    const mark = Date.parse(existing.last_message_at);
+    return {
+      total,
+      keep: (m) => !m.timestamp || Date.parse(m.timestamp) > mark,
+    };
+  }
+  return { total, keep: () => true };
+}
+
+/** Record the newest message of an ingest as the source's high-water mark */
+export async function updateHighWaterMark(
+  sourceId: string,
+  messages: NormalizedMsg[]
+): Promise<void> {
+  if (messages.length === 0) return;
+
+  let latest: NormalizedMsg | null = null;
+  for (const m of messages) {
+    if (!m.timestamp) continue;
+    if (!latest || Date.parse(m.timestamp) >= Date.parse(latest.timestamp!)) {
+      latest = m;
+    }
+  }
+  // Ids follow file order, so the last message carries the resumable id
+  const last = messages[messages.length - 1];
+
+  const supabase = await createClient();
+  const { error } = await supabase
+    .from("chat_sources")
+    .update({
+      last_message_id: last.messageId ?? null,
+      last_message_at: latest?.timestamp ?? null,
+    })
+    .eq("id", sourceId);
+  if (error) throw error;
+}
+
+/** Add one ingest's redaction tallies to the source's running totals */
+export async function recordRedactionCounts(
+  sourceId: string,
+  counts: RedactionCounts
+): Promise<void> {
+  const supabase = await createClient();
+  const { data, error: readError } = await supabase
+    .from("chat_sources")
+    .select("redaction_counts")
+    .eq("id", sourceId)
+    .single();
+  if (readError) throw readError;
+
+  const { error } = await supabase
+    .from("chat_sources")
+    .update({
+      redaction_counts: mergeRedactionCounts(
+        (data?.redaction_counts as RedactionCounts) ?? {},
+        counts
+      ),
+    })
+    .eq("id", sourceId);
+  if (error) throw error;
+}
+
+/** Create or refresh the source row for an ingested file/group/channel */
+export async function upsertChatSource(
+  userId: string,
+  source: {
+    sourceKey: string;
+    filename: string;
+    label: string | null;
+    importer: string;
+    metadata: Record<string, unknown>;
+    ingestJobId: string;
+    storagePath: string;
+  }
+): Promise<ChatSource> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("chat_sources")
+    .upsert(
+      {
+        user_id: userId,
+        source_key: source.sourceKey,
+        filename: source.filename,
+        label: source.label,
+        importer: source.importer,
+        metadata: source.metadata,
+        ingest_job_id: source.ingestJobId,
+        storage_path: source.storagePath,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,source_key" }
+    )
+    .select()
+    .single();
+  if (error) throw error;
+  return data as ChatSource;
+}
+
+export async function deleteSourceChunks(sourceId: string): Promise<number> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("chat_chunks")
+    .delete()
+    .eq("source_id", sourceId)
+    .select("id");
+  if (error) throw error;
+  return data?.length ?? 0;
+}
+
+/**
+ * Remove a source and all of its chunks. The stored upload is removed too
+ * once no other source (e.g. another group of the same archive) needs it.
+ */
+export async function deleteChatSource(
+  source: ChatSource
+): Promise<{ chunksDeleted: number }> {
+  const supabase = await createClient();
+  const chunksDeleted = await deleteSourceChunks(source.id);
+
+  const { error } = await supabase
+    .from("chat_sources")
+    .delete()
+    .eq("id", source.id);
+  if (error) throw error;
+
+  if (source.storage_path) {
+    const { count, error: countError } = await supabase
+      .from("chat_sources")
+      .select("id", { count: "exact", head: true })
+      .eq("storage_path", source.storage_path);
+    if (countError) throw countError;
+    if (!count) {
+      const { error: removeError } = await supabase.storage
+        .from(UPLOAD_BUCKET)
+        .remove([source.storage_path]);
+      if (removeError)
+        console.error("[v0] Upload cleanup failed:", removeError);
+    }
+  }
+
+  return { chunksDeleted };
+}
+
+/**
+ * Drop a source's chunks and queue a job that re-parses its most recent
+ * upload, then chunks and embeds only that source again from the beginning.
+ */
+export async function reindexChatSource(
+  source: ChatSource
+): Promise<IngestJob> {
+  if (!source.storage_path) {
+    throw new Error("Original upload is not available for this source");
+  }
+
+  const supabase = await createClient();
+  let uploadName = source.filename;
+  let options: Record<string, unknown> = {};
+  let sizeBytes = 0;
+  if (source.ingest_job_id) {
+    const { data: previous } = await supabase
+      .from("ingest_jobs")
+      .select("filename, options, size_bytes")
+      .eq("id", source.ingest_job_id)
+      .maybeSingle();
+    if (previous?.filename) uploadName = previous.filename;
+    // Re-index with the same redaction the source was ingested with
+    if (previous?.options) options = previous.options;
+    sizeBytes = previous?.size_bytes ?? 0;
+  }
+  // Chunk sizing always comes from the current workspace settings: re-indexing
+  // is how a sizing change reaches sources ingested before it
+  options = {
+    ...options,
+    sizing: (await getWorkspaceSettings(source.user_id)).chunking,
+  };
+
+  await deleteSourceChunks(source.id);
+  const { error: resetError } = await supabase
+    .from("chat_sources")
+    .update({ redaction_counts: {} })
+    .eq("id", source.id);
+  if (resetError) throw resetError;
+
+  const { data, error } = await supabase
+    .from("ingest_jobs")
+    .insert({
+      user_id: source.user_id,
+      status: "queued",
+      filename: uploadName,
+      storage_path: source.storage_path,
+      size_bytes: sizeBytes,
+      importer: source.importer,
+      target_source_id: source.id,
+      options,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data as IngestJob;
+}
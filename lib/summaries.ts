@@ -0,0 +1,500 @@
+import { createHash, type Hash } from "crypto";
+import { createClient } from "@/lib/supabase/server";
+import { generateSummary, SUMMARY_MODEL } from "@/lib/openai";
+import {
+  embeddingRecord,
+  generateEmbeddingsBatch,
+  type QueryEmbedding,
+} from "@/lib/embeddings";
+import { getActiveEmbeddingProvider } from "@/lib/embedding-versions";
+import { dayKey, isoWeekOf } from "@/lib/dates";
+import { countTokens } from "@/lib/tokens";
+import type { ThreadRoot } from "@/lib/rag";
+
+export type SummaryLevel = "day" | "week" | "topic";
+
+export type SummarySearchRow = {
+  summary_id: string;
+  level: SummaryLevel;
+  summary_key: string;
+  title: string | null;
+  content: string;
+  period_start: string | null;
+  period_end: string | null;
+  participants: string[];
+  chunk_ids: string[];
+  similarity: number;
+};
+
+// Per model call; bigger groups are summarized in parts, then combined
+const SUMMARY_INPUT_TOKENS = 6000;
+// Shorter threads are covered well enough by their chunks
+const TOPIC_MIN_CHUNKS = 3;
+const CHUNK_PAGE_SIZE = 1000;
+
+const INSTRUCTIONS: Record<SummaryLevel | "part", string> = {
+  day: "Summarize one day of chat history. Name the main topics, decisions, open questions and who was involved. Write 3-6 sentences of plain prose with no preamble.",
+  week: "These are daily summaries of one week of chat history, one per line. Summarize the week: the main lines of work, decisions and changes of direction, and who drove them. Write 4-8 sentences of plain prose with no preamble.",
+  topic:
+    "Summarize this chat thread: what it was about, what was decided, what was left open, and who took part. Write 2-5 sentences of plain prose with no preamble.",
+  part: "Summarize this part of a longer chat log. Keep names, dates, decisions and open questions. Plain prose, no preamble.",
+};
+
+type ChunkRow = {
+  id: string;
+  content: string;
+  start_time: string | null;
+  end_time: string | null;
+  participants: string[] | null;
+  thread_id: string | null;
+  thread_root: ThreadRoot | null;
+};
+
+// Chunks under one summary; the hash covers their ids and content, so an
+// edited or deleted chunk makes the summary stale
+type Group = {
+  key: string;
+  title: string;
+  chunkIds: string[];
+  texts: string[];
+  start: string | null;
+  end: string | null;
+  participants: Set<string>;
+  hash: Hash;
+};
+
+function newGroup(key: string, title: string): Group {
+  return {
+    key,
+    title,
+    chunkIds: [],
+    texts: [],
+    start: null,
+    end: null,
+    participants: new Set(),
+    hash: createHash("sha256"),
+  };
+}
+
+function addToGroup(group: Group, chunk: ChunkRow, keepText: boolean) {
+  group.chunkIds.push(chunk.id);
+  if (keepText) group.texts.push(chunk.content);
+  group.start ??= chunk.start_time;
+  group.end = chunk.end_time ?? chunk.start_time ?? group.end;
+  for (const p of chunk.participants ?? []) group.participants.add(p);
+  group.hash.update(`${chunk.id}\n${chunk.content}\n`);
+}
+
+export interface SummaryBuildStats {
+  written: number;
+  unchanged: number;
+  deleted: number;
+  // Out of date but left for the next pass (see maxWrites)
+  pending: number;
+}
+
+/**
+ * Build or refresh the summary layer of a user's chunks: one summary per day,
+ * one per ISO week (written from the day summaries) and one per thread with
+ * at least TOPIC_MIN_CHUNKS chunks. Summaries whose chunks did not change are
+ * kept as they are, and summaries of days or threads that no longer have
+ * chunks are deleted, so it is cheap to run after every ingest.
+ *
+ * A pass writes at most `maxWrites` summaries (each one or more model calls)
+ * and reports the rest as pending; running it again continues where it
+ * stopped, since what was written is then unchanged. Weeks wait until all
+ * their days are current.
+ */
+export async function buildSummaries(
+  userId: string,
+  {
+    timeZone = "UTC",
+    maxWrites = Infinity,
+    onWrite,
+  }: {
+    timeZone?: string;
+    maxWrites?: number;
+    // Called after each summary written, e.g. to renew a job lease
+    onWrite?: () => Promise<void> | void;
+  } = {}
+): Promise<SummaryBuildStats> {
+  const supabase = await createClient();
+  const existingRows = await selectAllSummaries<{
+    id: string;
+    level: SummaryLevel;
+    summary_key: string;
+    input_hash: string;
+  }>(userId, "id, level, summary_key, input_hash");
+  const existing = new Map(
+    existingRows.map((r) => [`${r.level}:${r.summary_key}`, r])
+  );
+  const seen = new Set<string>();
+  const stats = { written: 0, unchanged: 0, deleted: 0, pending: 0 };
+  // Weeks with a pending day
+  const pendingWeeks = new Set<string>();
+
+  const write = async (
+    level: SummaryLevel,
+    group: Group,
+    inputHash: string,
+    texts: () => Promise<string[]>,
+    childSummaryIds: string[] = []
+  ) => {
+    const id = `${level}:${group.key}`;
+    seen.add(id);
+    if (existing.get(id)?.input_hash === inputHash) {
+      stats.unchanged += 1;
+      return;
+    }
+    if (
+      stats.written >= maxWrites ||
+      (level === "week" && pendingWeeks.has(group.key))
+    ) {
+      stats.pending += 1;
+      if (level === "day") pendingWeeks.add(isoWeekOf(group.key).key);
+      return;
+    }
+    const content = await summarizeTexts(INSTRUCTIONS[level], await texts());
+    const { error } = await supabase.from("chat_summaries").upsert(
+      {
+        user_id: userId,
+        level,
+        summary_key: group.key,
+        title: group.title,
+        content,
+        period_start: group.start,
+        period_end: group.end,
+        participants: Array.from(group.participants),
+        chunk_ids: group.chunkIds,
+        child_summary_ids: childSummaryIds,
+        input_hash: inputHash,
+        model: SUMMARY_MODEL,
+        embedding: null,
+        embedding_model: null,
+        embedding_dimensions: null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "user_id,level,summary_key" }
+    );
+    if (error) throw error;
+    stats.written += 1;
+    await onWrite?.();
+  };
+
+  // Days come out of the time-ordered scan one after another; threads are
+  // collected by id and their text fetched again when summarized
+  const topics = new Map<string, Group>();
+  let day: Group | null = null;
+  const finishDay = async () => {
+    if (!day) return;
+    const texts = day.texts;
+    await write("day", day, day.hash.digest("hex"), async () => texts);
+    day = null;
+  };
+
+  for (let from = 0; ; from += CHUNK_PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from("chat_chunks")
+      .select(
+        "id, content, start_time, end_time, participants, thread_id:metadata->>thread_id, thread_root:metadata->thread_root"
+      )
+      .eq("user_id", userId)
+      .order("start_time", { ascending: true, nullsFirst: false })
+      .order("id", { ascending: true })
+      .range(from, from + CHUNK_PAGE_SIZE - 1);
+    if (error) throw error;
+    const chunks = (page ?? []) as unknown as ChunkRow[];
+
+    for (const chunk of chunks) {
+      if (chunk.start_time) {
+        const key = dayKey(Date.parse(chunk.start_time), timeZone);
+        if (day?.key !== key) {
+          await finishDay();
+          day = newGroup(key, key);
+        }
+        addToGroup(day!, chunk, true);
+      }
+      if (chunk.thread_id) {
+        let topic = topics.get(chunk.thread_id);
+        if (!topic) {
+          const root = chunk.thread_root;
+          topic = newGroup(
+            chunk.thread_id,
+            root
+              ? `Thread started by ${root.participant}: ${root.excerpt.slice(0, 80)}`
+              : `Thread ${chunk.thread_id}`
+          );
+          topics.set(chunk.thread_id, topic);
+        }
+        addToGroup(topic, chunk, false);
+      }
+    }
+    if (chunks.length < CHUNK_PAGE_SIZE) break;
+  }
+  await finishDay();
+
+  for (const topic of topics.values()) {
+    if (topic.chunkIds.length < TOPIC_MIN_CHUNKS) continue;
+    await write("topic", topic, topic.hash.digest("hex"), () =>
+      chunkTexts(topic.chunkIds)
+    );
+  }
+
+  // Weeks are written from the (now current) day summaries
+  const days = await selectAllSummaries<{
+    id: string;
+    summary_key: string;
+    content: string;
+    input_hash: string;
+    chunk_ids: string[];
+    participants: string[];
+    period_start: string | null;
+    period_end: string | null;
+  }>(
+    userId,
+    "id, summary_key, content, input_hash, chunk_ids, participants, period_start, period_end",
+    "day"
+  );
+  const weeks = new Map<
+    string,
+    { group: Group; dayIds: string[]; lines: string[] }
+  >();
+  for (const d of days) {
+    if (!seen.has(`day:${d.summary_key}`)) continue;
+    const { key, monday } = isoWeekOf(d.summary_key);
+    let week = weeks.get(key);
+    if (!week) {
+      week = {
+        group: newGroup(key, `Week of ${monday}`),
+        dayIds: [],
+        lines: [],
+      };
+      weeks.set(key, week);
+    }
+    week.group.chunkIds.push(...d.chunk_ids);
+    week.group.start ??= d.period_start;
+    week.group.end = d.period_end ?? week.group.end;
+    for (const p of d.participants) week.group.participants.add(p);
+    week.group.hash.update(`${d.summary_key}:${d.input_hash}\n`);
+    week.dayIds.push(d.id);
+    week.lines.push(`${d.summary_key}: ${d.content}`);
+  }
+  for (const { group, dayIds, lines } of weeks.values()) {
+    await write(
+      "week",
+      group,
+      group.hash.digest("hex"),
+      async () => lines,
+      dayIds
+    );
+  }
+
+  const stale = existingRows
+    .filter((r) => !seen.has(`${r.level}:${r.summary_key}`))
+    .map((r) => r.id);
+  for (let i = 0; i < stale.length; i += 500) {
+    const { error } = await supabase
+      .from("chat_summaries")
+      .delete()
+      .in("id", stale.slice(i, i + 500));
+    if (error) throw error;
+  }
+  stats.deleted = stale.length;
+
+  await embedMissingSummaries(userId);
+  return stats;
+}
+
+// Every summary row of a user (optionally one level), past the API row limit
+async function selectAllSummaries<T>(
+  userId: string,
+  columns: string,
+  level?: SummaryLevel
+): Promise<T[]> {
+  const supabase = await createClient();
+  const rows: T[] = [];
+  for (let from = 0; ; from += CHUNK_PAGE_SIZE) {
+    let query = supabase
+      .from("chat_summaries")
+      .select(columns)
+      .eq("user_id", userId);
+    if (level) query = query.eq("level", level);
+    const { data, error } = await query
+      .order("summary_key", { ascending: true })
+      .range(from, from + CHUNK_PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...((data ?? []) as T[]));
+    if ((data?.length ?? 0) < CHUNK_PAGE_SIZE) return rows;
+  }
+}
+
+// Chunk texts in time order, for summaries built from ids
+async function chunkTexts(ids: string[]): Promise<string[]> {
+  const supabase = await createClient();
+  const texts: string[] = [];
+  for (let i = 0; i < ids.length; i += 200) {
+    const { data, error } = await supabase
+      .from("chat_chunks")
+      .select("content, start_time")
+      .in("id", ids.slice(i, i + 200))
+      .order("start_time", { ascending: true });
+    if (error) throw error;
+    texts.push(...(data ?? []).map((c) => c.content as string));
+  }
+  return texts;
+}
+
+/**
+ * Summarize texts that may not fit one model call: they are packed into
+ * parts of SUMMARY_INPUT_TOKENS, each part summarized, and the part
+ * summaries summarized again until one call covers them.
+ */
+async function summarizeTexts(
+  instructions: string,
+  texts: string[]
+): Promise<string> {
+  const parts: string[] = [];
+  let part = "";
+  let partTokens = 0;
+  for (const text of texts) {
+    const tokens = countTokens(text);
+    if (part && partTokens + tokens > SUMMARY_INPUT_TOKENS) {
+      parts.push(part);
+      part = "";
+      partTokens = 0;
+    }
+    part += (part ? "\n\n---\n\n" : "") + text;
+    partTokens += tokens;
+  }
+  if (part) parts.push(part);
+
+  if (parts.length <= 1) return generateSummary(instructions, parts[0] ?? "");
+  const partials: string[] = [];
+  for (const p of parts) {
+    partials.push(await generateSummary(INSTRUCTIONS.part, p));
+  }
+  return summarizeTexts(instructions, partials);
+}
+
+/** Embed summaries that have no vector in the workspace's active version */
+export async function embedMissingSummaries(userId: string): Promise<number> {
+  const supabase = await createClient();
+  const embedder = await getActiveEmbeddingProvider(userId);
+  const record = embeddingRecord(embedder);
+  let embedded = 0;
+  for (;;) {
+    const { data: page, error } = await supabase
+      .from("chat_summaries")
+      .select("id, title, content")
+      .eq("user_id", userId)
+      .is("embedding", null)
+      .limit(200);
+    if (error) throw error;
+    if (!page || page.length === 0) return embedded;
+
+    const vectors = await generateEmbeddingsBatch(
+      page.map((s) => (s.title ? `${s.title}\n${s.content}` : s.content)),
+      embedder
+    );
+    for (let i = 0; i < page.length; i++) {
+      const { error: updateError } = await supabase
+        .from("chat_summaries")
+        .update({ embedding: vectors[i], ...record })
+        .eq("id", page[i].id);
+      if (updateError) throw updateError;
+    }
+    embedded += page.length;
+  }
+}
+
+/** Stored summaries per level, and when the layer last changed */
+export async function getSummaryCounts(userId: string): Promise<{
+  day: number;
+  week: number;
+  topic: number;
+  updated_at: string | null;
+}> {
+  const supabase = await createClient();
+  const levels: SummaryLevel[] = ["day", "week", "topic"];
+  const [counts, latest] = await Promise.all([
+    Promise.all(
+      levels.map(async (level) => {
+        const { count, error } = await supabase
+          .from("chat_summaries")
+          .select("id", { count: "exact", head: true })
+          .eq("user_id", userId)
+          .eq("level", level);
+        if (error) throw error;
+        return count ?? 0;
+      })
+    ),
+    supabase
+      .from("chat_summaries")
+      .select("updated_at")
+      .eq("user_id", userId)
+      .order("updated_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+  if (latest.error) throw latest.error;
+  return {
+    day: counts[0],
+    week: counts[1],
+    topic: counts[2],
+    updated_at: latest.data?.updated_at ?? null,
+  };
+}
+
+export async function searchSummaries(
+  queryEmbedding: QueryEmbedding,
+  matchCount = 5
+): Promise<SummarySearchRow[]> {
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("search_chat_summaries", {
+    query_embedding: queryEmbedding.embedding,
+    query_embedding_model: queryEmbedding.model,
+    query_embedding_dimensions: queryEmbedding.dimensions,
+    match_threshold: 0.2,
+    match_count: matchCount,
+  });
+  if (error) {
+    // The summary layer is optional; chunk search still answers
+    console.error("Error searching summaries:", error);
+    return [];
+  }
+  return data ?? [];
+}
+
+/** The chunks under a summary that are closest to the query */
+export async function summaryDetailChunks(
+  queryEmbedding: QueryEmbedding,
+  summary: SummarySearchRow,
+  matchCount = 4
+) {
+  const supabase = await createClient();
+  const { data, error } = await supabase.rpc("search_chunks_by_ids", {
+    query_embedding: queryEmbedding.embedding,
+    query_embedding_model: queryEmbedding.model,
+    query_embedding_dimensions: queryEmbedding.dimensions,
+    target_chunk_ids: summary.chunk_ids,
+    match_count: matchCount,
+  });
+  if (error) {
+    console.error("Error fetching summary detail:", error);
+    return [];
+  }
+  return data ?? [];
+}
+
+export function formatSummariesForRAG(rows: SummarySearchRow[]): string {
+  if (rows.length === 0) return "";
+  const parts = rows.map(
+    (s, idx) =>
+      `[S${idx + 1}] ${s.level} summary, ${s.title ?? s.summary_key} (${
+        s.chunk_ids.length
+      } chunks) [${(s.similarity * 100).toFixed(1)}%]:\n${s.content}`
+  );
+  return `Summaries (broad context; details follow below):\n\n${parts.join(
+    "\n\n"
+  )}\n\n`;
+}
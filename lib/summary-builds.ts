@@ -0,0 +1,190 @@
+import { createClient } from "@/lib/supabase/server";
+import { buildSummaries } from "@/lib/summaries";
+
+export type SummaryBuildStatus = "queued" | "running" | "done" | "failed";
+
+export interface SummaryBuild {
+  user_id: string;
+  status: SummaryBuildStatus;
+  // Zone of the day boundaries (UTC when null)
+  time_zone: string | null;
+  written: number;
+  unchanged: number;
+  deleted: number;
+  pending: number;
+  error: string | null;
+  attempts: number;
+  locked_until: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+// The worker renews its lease after every summary it writes
+const LEASE_SECONDS = 120;
+const MAX_ATTEMPTS = 5;
+// Summaries written per pass; each is one or more model calls
+const WRITES_PER_PASS = 10;
+// No new pass starts after this long, leaving room in the 300 s function
+// limit; the build is handed off to the next worker run instead
+const RUN_BUDGET_MS = 180_000;
+
+export function isSummaryBuildStale(build: SummaryBuild): boolean {
+  return (
+    (build.status === "queued" || build.status === "running") &&
+    (!build.locked_until || new Date(build.locked_until).getTime() < Date.now())
+  );
+}
+
+export async function getSummaryBuild(
+  userId: string
+): Promise<SummaryBuild | null> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("summary_builds")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return (data as SummaryBuild) ?? null;
+}
+
+/**
+ * Start a fresh build of the user's summary layer. A worker already running
+ * a build keeps its lease and settings; its next pass rescans the chunks, so
+ * whatever the new build was queued for is covered either way.
+ */
+export async function queueSummaryBuild(
+  userId: string,
+  timeZone?: string
+): Promise<SummaryBuild> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("summary_builds")
+    .upsert(
+      {
+        user_id: userId,
+        status: "queued",
+        time_zone: timeZone ?? null,
+        written: 0,
+        unchanged: 0,
+        deleted: 0,
+        pending: 0,
+        error: null,
+        attempts: 0,
+        updated_at: new Date().toISOString(),
+        finished_at: null,
+      },
+      { onConflict: "user_id" }
+    )
+    .select()
+    .single();
+  if (error) throw error;
+  return data as SummaryBuild;
+}
+
+/**
+ * Run the user's queued build in passes of WRITES_PER_PASS summaries until
+ * nothing is pending or RUN_BUDGET_MS is used up. Every pass leaves what it
+ * wrote in place, so a worker that is cut off loses at most its current
+ * pass; the build is resumed by the next run once the lease expires.
+ * Returns without doing anything if another worker holds the lease. Never
+ * rejects: it runs under after(), and errors are logged and recorded on the
+ * build where possible.
+ */
+export async function runSummaryBuild(userId: string): Promise<void> {
+  let supabase: Awaited<ReturnType<typeof createClient>>;
+  let build: SummaryBuild | null;
+  try {
+    supabase = await createClient();
+    const { data: claimed, error: claimError } = await supabase.rpc(
+      "claim_summary_build",
+      { lease_seconds: LEASE_SECONDS }
+    );
+    if (claimError) throw claimError;
+    if (!claimed) return;
+    build = await getSummaryBuild(userId);
+  } catch (error) {
+    console.error(`[v0] Could not claim summary build for ${userId}:`, error);
+    return;
+  }
+  if (!build) return;
+
+  const update = async (patch: Partial<SummaryBuild>) => {
+    const now = Date.now();
+    const status = patch.status ?? build.status;
+    const { error } = await supabase
+      .from("summary_builds")
+      .update({
+        ...patch,
+        updated_at: new Date(now).toISOString(),
+        locked_until:
+          status === "running"
+            ? new Date(now + LEASE_SECONDS * 1000).toISOString()
+            : null,
+      })
+      .eq("user_id", userId);
+    if (error) throw error;
+    Object.assign(build, patch);
+  };
+
+  console.log(
+    `[v0] Running summary build for ${userId} (attempt ${build.attempts})`
+  );
+  const started = Date.now();
+  try {
+    for (;;) {
+      const stats = await buildSummaries(userId, {
+        timeZone: build.time_zone ?? undefined,
+        maxWrites: WRITES_PER_PASS,
+        onWrite: () => update({}),
+      });
+      const progress = {
+        written: build.written + stats.written,
+        unchanged: stats.unchanged,
+        deleted: build.deleted + stats.deleted,
+        pending: stats.pending,
+        // A finished pass is progress: only runs that fail count
+        attempts: 0,
+        error: null,
+      };
+
+      if (stats.pending === 0) {
+        await update({
+          ...progress,
+          status: "done",
+          finished_at: new Date().toISOString(),
+        });
+        console.log(`[v0] Summary build for ${userId} completed:`, progress);
+        return;
+      }
+      if (Date.now() - started > RUN_BUDGET_MS) {
+        await update({ ...progress, status: "queued" });
+        console.log(
+          `[v0] Summary build for ${userId} handed off with ${stats.pending} pending`
+        );
+        return;
+      }
+      await update(progress);
+    }
+  } catch (error) {
+    console.error(`[v0] Summary build for ${userId} failed:`, error);
+    const message = error instanceof Error ? error.message : String(error);
+    // If this fails too, the lease runs out and the next run retries
+    await update(
+      build.attempts >= MAX_ATTEMPTS
+        ? {
+            status: "failed",
+            error: message,
+            finished_at: new Date().toISOString(),
+          }
+        : // Drop the lease so the next worker run retries
+          { status: "queued", error: message }
+    ).catch((updateError) =>
+      console.error(
+        `[v0] Could not record summary build failure for ${userId}:`,
+        updateError
+      )
+    );
+  }
+}
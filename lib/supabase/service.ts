@@ -0,0 +1,16 @@
+import { createClient } from "@supabase/supabase-js"
+
+/**
+ * Client with the service role key, which bypasses RLS. Server-only, for
+ * shared tables no user session may reach (e.g. embedding_cache); never use
+ * it for anything a request can steer toward another user's rows.
+ */
+export function createServiceClient() {
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!key) {
+    throw new Error("Missing SUPABASE_SERVICE_ROLE_KEY environment variable")
+  }
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -0,0 +1,53 @@
+import { getEncoding, type Tiktoken } from "js-tiktoken";
+
+// Encoding of the OpenAI embedding models (text-embedding-3-*)
+export const TOKENIZER = "cl100k_base";
+
+let encoding: Tiktoken | null = null;
+
+// The rank table is large; load it on first use rather than at import
+function tokenizer(): Tiktoken {
+  encoding ??= getEncoding(TOKENIZER);
+  return encoding;
+}
+
+// BPE time grows with the square of a run without whitespace (CJK text,
+// base64), so long runs are encoded in slices; counts shift by a token or so
+const MAX_RUN = 48;
+const LONG_RUN = new RegExp(`(\\S{${MAX_RUN}})`, "u");
+
+function encode(text: string): number[] {
+  if (text.length <= MAX_RUN) return tokenizer().encode(text);
+  return text
+    .split(LONG_RUN)
+    .filter(Boolean)
+    .flatMap((part) => tokenizer().encode(part));
+}
+
+export function countTokens(text: string): number {
+  return text ? encode(text).length : 0;
+}
+
+/**
+ * Split text into pieces of at most maxTokens tokens. Cuts never fall inside
+ * a character that spans several tokens (CJK, emoji).
+ */
+export function splitByTokens(text: string, maxTokens: number): string[] {
+  const tokens = encode(text);
+  if (tokens.length <= maxTokens) return [text];
+
+  const pieces: string[] = [];
+  let start = 0;
+  while (start < tokens.length) {
+    let end = Math.min(start + Math.max(1, maxTokens), tokens.length);
+    let piece = tokenizer().decode(tokens.slice(start, end));
+    // Back off while the cut leaves half a character behind
+    while (end < tokens.length && end - start > 1 && piece.endsWith("\uFFFD")) {
+      end -= 1;
+      piece = tokenizer().decode(tokens.slice(start, end));
+    }
+    pieces.push(piece);
+    start = end;
+  }
+  return pieces;
+}
@@ -0,0 +1,83 @@
+import { createClient } from "@/lib/supabase/server";
+import { DEFAULT_CHUNK_SIZING, type ChunkSizing } from "@/lib/rag";
+
+export interface WorkspaceSettings {
+  chunking: Required<ChunkSizing>;
+}
+
+// Embedding inputs are capped at 8191 tokens
+const MAX_CHUNK_TOKENS = 8000;
+const MAX_OVERLAP_MESSAGES = 10;
+
+/** Settings of the user's workspace, with defaults for anything never saved */
+export async function getWorkspaceSettings(
+  userId: string
+): Promise<WorkspaceSettings> {
+  const supabase = await createClient();
+  const { data, error } = await supabase
+    .from("workspace_settings")
+    .select("chunking")
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  return {
+    chunking: { ...DEFAULT_CHUNK_SIZING, ...(data?.chunking ?? {}) },
+  };
+}
+
+export async function saveChunkingSettings(
+  userId: string,
+  chunking: Required<ChunkSizing>
+): Promise<WorkspaceSettings> {
+  const supabase = await createClient();
+  const { error } = await supabase.from("workspace_settings").upsert(
+    {
+      user_id: userId,
+      chunking,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "user_id" }
+  );
+  if (error) throw error;
+  return { chunking };
+}
+
+/**
+ * Validate chunk sizing from a request; fields left out keep their defaults.
+ * Returns an error message for out-of-range or inconsistent values.
+ */
+export function parseChunkSizing(
+  value: unknown
+): { sizing: Required<ChunkSizing> } | { error: string } {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return { error: "Chunking settings must be an object" };
+  }
+  const input = value as Record<string, unknown>;
+  const sizing = { ...DEFAULT_CHUNK_SIZING };
+  for (const key of Object.keys(DEFAULT_CHUNK_SIZING) as Array<
+    keyof ChunkSizing
+  >) {
+    if (input[key] === undefined) continue;
+    const n = input[key];
+    if (typeof n !== "number" || !Number.isInteger(n) || n < 0) {
+      return { error: `${key} must be a non-negative integer` };
+    }
+    sizing[key] = n;
+  }
+
+  if (sizing.maxTokens < 1 || sizing.maxTokens > MAX_CHUNK_TOKENS) {
+    return { error: `maxTokens must be between 1 and ${MAX_CHUNK_TOKENS}` };
+  }
+  if (
+    sizing.minTokens > sizing.targetTokens ||
+    sizing.targetTokens > sizing.maxTokens
+  ) {
+    return { error: "Expected minTokens <= targetTokens <= maxTokens" };
+  }
+  if (sizing.overlapMessages > MAX_OVERLAP_MESSAGES) {
+    return {
+      error: `overlapMessages must be at most ${MAX_OVERLAP_MESSAGES}`,
+    };
+  }
+  return { sizing };
+}
@@ -0,0 +1,91 @@
+-- Background ingestion jobs for chat history uploads
+-- Uploads are stored in the private "chat-uploads" bucket and processed in stages
+-- (queued -> parsing -> chunking -> embedding -> done/failed). A job whose lease
+-- (locked_until) has expired is picked up again by the next worker run.
+
+create table if not exists public.ingest_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+  status text not null default 'queued'
+    check (status in ('queued', 'parsing', 'chunking', 'embedding', 'done', 'failed')),
+  filename text not null,
+  storage_path text not null,
+  importer text,
+  messages_total int not null default 0,
+  sources_total int not null default 0,
+  sources_done int not null default 0,
+  chunks_total int not null default 0,
+  chunks_inserted int not null default 0,
+  chunks_embedded int not null default 0,
+  result jsonb default '{}',
+  error text,
+  attempts int not null default 0,
+  locked_until timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  finished_at timestamp with time zone
+);
+
+create index if not exists idx_ingest_jobs_user_created on public.ingest_jobs(user_id, created_at desc);
+create index if not exists idx_ingest_jobs_status on public.ingest_jobs(status) where status not in ('done', 'failed');
+
+alter table public.ingest_jobs enable row level security;
+
+create policy if not exists "Users can view their own ingest jobs"
+  on public.ingest_jobs for select
+  using (auth.uid() = user_id);
+
+create policy if not exists "Users can insert their own ingest jobs"
+  on public.ingest_jobs for insert
+  with check (auth.uid() = user_id);
+
+create policy if not exists "Users can update their own ingest jobs"
+  on public.ingest_jobs for update
+  using (auth.uid() = user_id);
+
+create policy if not exists "Users can delete their own ingest jobs"
+  on public.ingest_jobs for delete
+  using (auth.uid() = user_id);
+
+-- Atomically take the job lease. Returns false when the job is finished or
+-- another worker still holds an unexpired lease.
+drop function if exists claim_ingest_job(uuid, int);
+create or replace function claim_ingest_job(
+  target_job_id uuid,
+  lease_seconds int default 120
+)
+returns boolean
+language plpgsql
+as $$
+declare
+  claimed uuid;
+begin
+  update public.ingest_jobs
+  set locked_until = timezone('utc'::text, now()) + make_interval(secs => lease_seconds),
+      attempts = attempts + 1,
+      updated_at = timezone('utc'::text, now())
+  where id = target_job_id
+    and user_id = auth.uid()
+    and status not in ('done', 'failed')
+    and (locked_until is null or locked_until < timezone('utc'::text, now()))
+  returning id into claimed;
+  return claimed is not null;
+end;
+$$;
+
+-- Private bucket for raw uploads, one folder per user
+insert into storage.buckets (id, name, public)
+values ('chat-uploads', 'chat-uploads', false)
+on conflict (id) do nothing;
+
+create policy if not exists "Users can upload their own chat exports"
+  on storage.objects for insert
+  with check (bucket_id = 'chat-uploads' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy if not exists "Users can read their own chat exports"
+  on storage.objects for select
+  using (bucket_id = 'chat-uploads' and (storage.foldername(name))[1] = auth.uid()::text);
+
+create policy if not exists "Users can delete their own chat exports"
+  on storage.objects for delete
+  using (bucket_id = 'chat-uploads' and (storage.foldername(name))[1] = auth.uid()::text);
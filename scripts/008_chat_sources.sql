@@ -0,0 +1,100 @@
+-- Imported sources (one per uploaded file, Takeout group or Slack channel)
+-- so imports can be listed, deleted and re-indexed as a unit.
+
+create table if not exists public.chat_sources (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+  filename text not null,
+  label text,
+  importer text,
+  metadata jsonb default '{}',
+  -- Upload this source was last ingested from; null for pre-jobs imports
+  ingest_job_id uuid references public.ingest_jobs(id) on delete set null,
+  storage_path text,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create unique index if not exists idx_chat_sources_user_filename on public.chat_sources(user_id, filename);
+
+alter table public.chat_chunks
+  add column if not exists source_id uuid references public.chat_sources(id) on delete cascade;
+
+create index if not exists idx_chat_chunks_source_id on public.chat_chunks(source_id);
+
+-- Re-index jobs only process the one source they target
+alter table public.ingest_jobs
+  add column if not exists target_source_id uuid references public.chat_sources(id) on delete cascade;
+
+alter table public.chat_sources enable row level security;
+
+create policy if not exists "Users can view their own chat sources"
+  on public.chat_sources for select
+  using (auth.uid() = user_id);
+
+create policy if not exists "Users can insert their own chat sources"
+  on public.chat_sources for insert
+  with check (auth.uid() = user_id);
+
+create policy if not exists "Users can update their own chat sources"
+  on public.chat_sources for update
+  using (auth.uid() = user_id);
+
+create policy if not exists "Users can delete their own chat sources"
+  on public.chat_sources for delete
+  using (auth.uid() = user_id);
+
+-- Backfill: one source per (user, original_filename) already in chat_chunks
+insert into public.chat_sources (user_id, filename, metadata, created_at, updated_at)
+select user_id, original_filename, '{}', min(created_at), max(created_at)
+from public.chat_chunks
+where original_filename is not null
+group by user_id, original_filename
+on conflict (user_id, filename) do nothing;
+
+update public.chat_chunks c
+set source_id = s.id
+from public.chat_sources s
+where c.source_id is null
+  and s.user_id = c.user_id
+  and s.filename = c.original_filename;
+
+-- Source listing with chunk statistics for the knowledge-base page
+drop function if exists list_chat_sources();
+create or replace function list_chat_sources()
+returns table (
+  id uuid,
+  filename text,
+  label text,
+  importer text,
+  metadata jsonb,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone,
+  can_reindex boolean,
+  chunk_count bigint,
+  message_count bigint,
+  earliest timestamp with time zone,
+  latest timestamp with time zone
+)
+language sql
+stable
+as $$
+  select
+    s.id,
+    s.filename,
+    s.label,
+    s.importer,
+    s.metadata,
+    s.created_at,
+    s.updated_at,
+    s.storage_path is not null as can_reindex,
+    count(c.id)::bigint as chunk_count,
+    coalesce(sum(c.message_count), 0)::bigint as message_count,
+    min(c.start_time) as earliest,
+    max(c.end_time) as latest
+  from public.chat_sources s
+  left join public.chat_chunks c on c.source_id = s.id
+  where s.user_id = auth.uid()
+  group by s.id
+  order by s.updated_at desc;
+$$;
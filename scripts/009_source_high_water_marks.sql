@@ -0,0 +1,64 @@
+-- Incremental re-import: recognise a source across uploads and remember the
+-- last message ingested from it.
+--   source_key: stable identity, e.g. 'google-chat:Space AAAA', 'slack:C0123',
+--               or 'file:<name>' when the export carries no space/channel id
+--   last_message_id / last_message_at: high-water mark of the last ingest
+
+alter table public.chat_sources
+  add column if not exists source_key text,
+  add column if not exists last_message_id text,
+  add column if not exists last_message_at timestamp with time zone;
+
+update public.chat_sources
+set source_key = 'file:' || filename
+where source_key is null;
+
+alter table public.chat_sources
+  alter column source_key set not null;
+
+-- Identity moves from filename to source_key: a newer export of the same
+-- space arrives under a different archive name but is the same source
+drop index if exists idx_chat_sources_user_filename;
+create unique index if not exists idx_chat_sources_user_key on public.chat_sources(user_id, source_key);
+create index if not exists idx_chat_sources_filename on public.chat_sources(user_id, filename);
+
+drop function if exists list_chat_sources();
+create or replace function list_chat_sources()
+returns table (
+  id uuid,
+  filename text,
+  label text,
+  importer text,
+  metadata jsonb,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone,
+  can_reindex boolean,
+  last_message_at timestamp with time zone,
+  chunk_count bigint,
+  message_count bigint,
+  earliest timestamp with time zone,
+  latest timestamp with time zone
+)
+language sql
+stable
+as $$
+  select
+    s.id,
+    s.filename,
+    s.label,
+    s.importer,
+    s.metadata,
+    s.created_at,
+    s.updated_at,
+    s.storage_path is not null as can_reindex,
+    s.last_message_at,
+    count(c.id)::bigint as chunk_count,
+    coalesce(sum(c.message_count), 0)::bigint as message_count,
+    min(c.start_time) as earliest,
+    max(c.end_time) as latest
+  from public.chat_sources s
+  left join public.chat_chunks c on c.source_id = s.id
+  where s.user_id = auth.uid()
+  group by s.id
+  order by s.updated_at desc;
+$$;
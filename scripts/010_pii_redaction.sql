@@ -0,0 +1,51 @@
+-- PII redaction: per-upload ingest options and per-source redaction tallies
+
+alter table public.ingest_jobs
+  add column if not exists options jsonb default '{}';
+
+-- Running totals by detector id, e.g. {"email": 12, "phone": 3, "dropped_messages": 1}
+alter table public.chat_sources
+  add column if not exists redaction_counts jsonb default '{}';
+
+drop function if exists list_chat_sources();
+create or replace function list_chat_sources()
+returns table (
+  id uuid,
+  filename text,
+  label text,
+  importer text,
+  metadata jsonb,
+  created_at timestamp with time zone,
+  updated_at timestamp with time zone,
+  can_reindex boolean,
+  last_message_at timestamp with time zone,
+  redaction_counts jsonb,
+  chunk_count bigint,
+  message_count bigint,
+  earliest timestamp with time zone,
+  latest timestamp with time zone
+)
+language sql
+stable
+as $$
+  select
+    s.id,
+    s.filename,
+    s.label,
+    s.importer,
+    s.metadata,
+    s.created_at,
+    s.updated_at,
+    s.storage_path is not null as can_reindex,
+    s.last_message_at,
+    s.redaction_counts,
+    count(c.id)::bigint as chunk_count,
+    coalesce(sum(c.message_count), 0)::bigint as message_count,
+    min(c.start_time) as earliest,
+    max(c.end_time) as latest
+  from public.chat_sources s
+  left join public.chat_chunks c on c.source_id = s.id
+  where s.user_id = auth.uid()
+  group by s.id
+  order by s.updated_at desc;
+$$;
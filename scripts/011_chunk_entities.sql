@@ -0,0 +1,60 @@
+-- Mentions, links and attachments extracted at ingest live in chat_chunks.metadata
+-- (mentions, links, link_domains, attachments, attachment_types); search can
+-- filter on them with jsonb containment, e.g. {"link_domains": ["github.com"]}
+
+create index if not exists chat_chunks_metadata_gin_idx
+  on public.chat_chunks using gin (metadata jsonb_path_ops);
+
+drop function if exists search_chat_chunks_hybrid(text, vector, float, int, int, uuid);
+drop function if exists search_chat_chunks_hybrid(text, vector, float, int, int, uuid, jsonb);
+create or replace function search_chat_chunks_hybrid(
+  query_text text,
+  query_embedding vector(1536),
+  match_threshold float default 0.20,
+  lexical_limit int default 300,
+  final_k int default 20,
+  target_user_id uuid default auth.uid(),
+  metadata_filter jsonb default null
+)
+returns table (
+  chunk_id uuid,
+  content text,
+  participants text[],
+  start_time timestamp with time zone,
+  end_time timestamp with time zone,
+  original_filename text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+security definer
+as $$
+begin
+  perform set_config('ivfflat.probes', '10', true);
+  return query
+  select
+    c.id as chunk_id,
+    c.content,
+    c.participants,
+    c.start_time,
+    c.end_time,
+    c.original_filename,
+    c.metadata,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from (
+    with lexical as (
+      select cc.id
+      from public.chat_chunks as cc
+      where metadata_filter is null or cc.metadata @> metadata_filter
+      order by ts_rank_cd(to_tsvector('english', cc.content), plainto_tsquery('english', query_text)) desc
+      limit lexical_limit
+    )
+    select cc.*
+    from lexical l
+    join public.chat_chunks cc on cc.id = l.id
+  ) as c
+  where 1 - (c.embedding <=> query_embedding) > match_threshold
+  order by c.embedding <=> query_embedding
+  limit final_k;
+end;
+$$;
@@ -0,0 +1,32 @@
+-- Saved column mappings for tabular (CSV/TSV) imports, reusable across uploads
+
+create table if not exists public.import_presets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+  name text not null,
+  importer text not null default 'csv',
+  -- Field -> column header, e.g. {"text": "Message", "participant": "Author"}
+  mapping jsonb not null default '{}',
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create unique index if not exists idx_import_presets_user_name on public.import_presets(user_id, name);
+
+alter table public.import_presets enable row level security;
+
+create policy if not exists "Users can view their own import presets"
+  on public.import_presets for select
+  using (auth.uid() = user_id);
+
+create policy if not exists "Users can insert their own import presets"
+  on public.import_presets for insert
+  with check (auth.uid() = user_id);
+
+create policy if not exists "Users can update their own import presets"
+  on public.import_presets for update
+  using (auth.uid() = user_id);
+
+create policy if not exists "Users can delete their own import presets"
+  on public.import_presets for delete
+  using (auth.uid() = user_id);
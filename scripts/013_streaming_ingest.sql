@@ -0,0 +1,13 @@
+-- Streaming ingest: uploads above the streaming threshold are parsed
+-- incrementally, so the worker needs the size before downloading
+
+alter table public.ingest_jobs
+  add column if not exists size_bytes bigint not null default 0;
+
+-- Best effort backfill from the stored objects
+update public.ingest_jobs j
+set size_bytes = coalesce((o.metadata->>'size')::bigint, 0)
+from storage.objects o
+where o.bucket_id = 'chat-uploads'
+  and o.name = j.storage_path
+  and j.size_bytes = 0;
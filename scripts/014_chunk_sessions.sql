@@ -0,0 +1,34 @@
+-- Conversation sessions: chunks are split at silence gaps, day boundaries and
+-- participant changes, and carry metadata.session_id / session_start.
+-- Retrieval pulls back the whole session around a strong hit.
+
+create or replace function get_session_chunks(
+  target_session_id text,
+  max_chunks int default 12
+)
+returns table (
+  chunk_id uuid,
+  content text,
+  participants text[],
+  start_time timestamp with time zone,
+  end_time timestamp with time zone,
+  original_filename text,
+  metadata jsonb
+)
+language sql
+security definer
+stable
+as $$
+  select
+    c.id as chunk_id,
+    c.content,
+    c.participants,
+    c.start_time,
+    c.end_time,
+    c.original_filename,
+    c.metadata
+  from public.chat_chunks c
+  where c.metadata @> jsonb_build_object('session_id', target_session_id)
+  order by c.start_time nulls last, c.id
+  limit max_chunks;
+$$;
@@ -0,0 +1,48 @@
+-- Chunk provenance: chat_chunks.metadata.source_messages lists the messages
+-- behind each chunk in order ({message_id, participant, timestamp, start,
+-- end}, offsets into content) and metadata.message_ids holds the export ids
+-- flat, so the chunks holding a message can be found by containment.
+
+-- One chunk with its provenance; chunks are readable by everyone through
+-- search (see 006_global_kb.sql), so this is too
+create or replace function get_chat_chunk(target_chunk_id uuid)
+returns table (
+  chunk_id uuid,
+  content text,
+  participants text[],
+  start_time timestamp with time zone,
+  end_time timestamp with time zone,
+  original_filename text,
+  metadata jsonb
+)
+language sql
+security definer
+stable
+as $$
+  select
+    c.id as chunk_id,
+    c.content,
+    c.participants,
+    c.start_time,
+    c.end_time,
+    c.original_filename,
+    c.metadata
+  from public.chat_chunks c
+  where c.id = target_chunk_id;
+$$;
+
+-- Chunks of one source holding any of the given messages. Runs as the
+-- caller, so only the owner's chunks are returned
+create or replace function find_message_chunks(
+  target_source_id uuid,
+  target_message_ids text[]
+)
+returns setof public.chat_chunks
+language sql
+stable
+as $$
+  select c.*
+  from public.chat_chunks c
+  where c.source_id = target_source_id
+    and c.metadata->'message_ids' ?| target_message_ids;
+$$;
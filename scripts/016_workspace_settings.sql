@@ -0,0 +1,24 @@
+-- Per-workspace (per account) settings. chunking holds the token sizing used
+-- for new uploads: {"targetTokens": 250, "minTokens": 100, "maxTokens": 400,
+-- "overlapMessages": 1}. Each chunk records what produced it in
+-- chat_chunks.metadata.chunking.
+
+create table if not exists public.workspace_settings (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  chunking jsonb not null default '{}',
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.workspace_settings enable row level security;
+
+create policy if not exists "Users can view their own workspace settings"
+  on public.workspace_settings for select
+  using (auth.uid() = user_id);
+
+create policy if not exists "Users can insert their own workspace settings"
+  on public.workspace_settings for insert
+  with check (auth.uid() = user_id);
+
+create policy if not exists "Users can update their own workspace settings"
+  on public.workspace_settings for update
+  using (auth.uid() = user_id);
@@ -0,0 +1,129 @@
+-- Hierarchical summary layer over chat_chunks. Day and topic (thread)
+-- summaries are written from chunks, week summaries from day summaries.
+-- Each keeps the chunks it covers (chunk_ids) so retrieval can drill down
+-- from a broad summary to the detail underneath.
+
+create table if not exists public.chat_summaries (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid references auth.users(id) on delete cascade not null,
+  level text not null check (level in ('day', 'week', 'topic')),
+  -- '2019-03-04' (day), '2019-W10' (ISO week) or the thread id (topic)
+  summary_key text not null,
+  title text,
+  content text not null,
+  period_start timestamp with time zone,
+  period_end timestamp with time zone,
+  participants text[] not null default '{}',
+  chunk_ids uuid[] not null default '{}',
+  -- Day summaries a week summary was written from
+  child_summary_ids uuid[] not null default '{}',
+  -- Hash of the children; a summary is rewritten only when it changes
+  input_hash text not null,
+  model text not null,
+  embedding vector(1536),
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+create unique index if not exists idx_chat_summaries_key on public.chat_summaries(user_id, level, summary_key);
+create index if not exists idx_chat_summaries_period on public.chat_summaries(period_start);
+create index if not exists idx_chat_summaries_embedding on public.chat_summaries using ivfflat (embedding vector_cosine_ops) with (lists = 100);
+
+alter table public.chat_summaries enable row level security;
+
+create policy if not exists "Users can view their own chat summaries"
+  on public.chat_summaries for select
+  using (auth.uid() = user_id);
+
+create policy if not exists "Users can insert their own chat summaries"
+  on public.chat_summaries for insert
+  with check (auth.uid() = user_id);
+
+create policy if not exists "Users can update their own chat summaries"
+  on public.chat_summaries for update
+  using (auth.uid() = user_id);
+
+create policy if not exists "Users can delete their own chat summaries"
+  on public.chat_summaries for delete
+  using (auth.uid() = user_id);
+
+-- Summary search is global like chunk search (see 006_global_kb.sql)
+create or replace function search_chat_summaries(
+  query_embedding vector(1536),
+  match_threshold float default 0.2,
+  match_count int default 5,
+  target_levels text[] default array['day', 'week', 'topic']
+)
+returns table (
+  summary_id uuid,
+  level text,
+  summary_key text,
+  title text,
+  content text,
+  period_start timestamp with time zone,
+  period_end timestamp with time zone,
+  participants text[],
+  chunk_ids uuid[],
+  similarity float
+)
+language plpgsql
+security definer
+as $$
+begin
+  perform set_config('ivfflat.probes', '10', true);
+  return query
+  select
+    s.id as summary_id,
+    s.level,
+    s.summary_key,
+    s.title,
+    s.content,
+    s.period_start,
+    s.period_end,
+    s.participants,
+    s.chunk_ids,
+    1 - (s.embedding <=> query_embedding) as similarity
+  from public.chat_summaries s
+  where s.embedding is not null
+    and s.level = any(target_levels)
+    and 1 - (s.embedding <=> query_embedding) > match_threshold
+  order by s.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
+
+-- Drill-down: the chunks under a summary closest to the query
+create or replace function search_chunks_by_ids(
+  query_embedding vector(1536),
+  target_chunk_ids uuid[],
+  match_count int default 5
+)
+returns table (
+  chunk_id uuid,
+  content text,
+  participants text[],
+  start_time timestamp with time zone,
+  end_time timestamp with time zone,
+  original_filename text,
+  metadata jsonb,
+  similarity float
+)
+language sql
+security definer
+stable
+as $$
+  select
+    c.id as chunk_id,
+    c.content,
+    c.participants,
+    c.start_time,
+    c.end_time,
+    c.original_filename,
+    c.metadata,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from public.chat_chunks c
+  where c.id = any(target_chunk_ids)
+    and c.embedding is not null
+  order by c.embedding <=> query_embedding
+  limit match_count;
+$$;
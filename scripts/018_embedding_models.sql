@@ -0,0 +1,23 @@
+-- Record which embedding model produced each stored vector, and its native
+-- dimension. Vectors narrower than the 1536-wide columns are zero-padded
+-- (lib/embeddings), so embedding_dimensions is the model's own width.
+-- Rows embedded before this script all came from text-embedding-3-small.
+
+alter table public.chat_chunks
+  add column if not exists embedding_model text,
+  add column if not exists embedding_dimensions integer;
+
+alter table public.chat_summaries
+  add column if not exists embedding_model text,
+  add column if not exists embedding_dimensions integer;
+
+update public.chat_chunks
+  set embedding_model = 'text-embedding-3-small', embedding_dimensions = 1536
+  where embedding is not null and embedding_model is null;
+
+update public.chat_summaries
+  set embedding_model = 'text-embedding-3-small', embedding_dimensions = 1536
+  where embedding is not null and embedding_model is null;
+
+create index if not exists idx_chat_chunks_embedding_model
+  on public.chat_chunks (user_id, embedding_model);
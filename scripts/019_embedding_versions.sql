@@ -0,0 +1,273 @@
+-- Versioned embeddings. A version is "<model>@<dimensions>" (see
+-- lib/embeddings). chat_chunks.embedding stays the serving copy of the
+-- workspace's active version, so every search function keeps reading it.
+-- Re-embedding fills chunk_embeddings with the new version in the
+-- background; activate_embedding_version then swaps the serving copy in one
+-- transaction, after saving the replaced vectors here for rollback.
+
+create table if not exists public.chunk_embeddings (
+  chunk_id uuid references public.chat_chunks(id) on delete cascade not null,
+  user_id uuid references auth.users(id) on delete cascade not null,
+  version text not null,
+  embedding vector(1536) not null,
+  embedding_model text not null,
+  embedding_dimensions integer not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  primary key (chunk_id, version)
+);
+
+create index if not exists idx_chunk_embeddings_user_version
+  on public.chunk_embeddings(user_id, version);
+
+alter table public.chunk_embeddings enable row level security;
+
+create policy if not exists "Users can view their own chunk embeddings"
+  on public.chunk_embeddings for select
+  using (auth.uid() = user_id);
+
+create policy if not exists "Users can insert their own chunk embeddings"
+  on public.chunk_embeddings for insert
+  with check (auth.uid() = user_id);
+
+create policy if not exists "Users can update their own chunk embeddings"
+  on public.chunk_embeddings for update
+  using (auth.uid() = user_id);
+
+create policy if not exists "Users can delete their own chunk embeddings"
+  on public.chunk_embeddings for delete
+  using (auth.uid() = user_id);
+
+-- {"active": {provider config}, "previous": {...}, "target": {...},
+--  "activated_at": "..."}; empty means the provider configured in env
+alter table public.workspace_settings
+  add column if not exists embedding jsonb not null default '{}';
+
+-- Backfill work list: the user's chunks with no vector in target_version yet
+create or replace function chunks_missing_embedding_version(
+  target_version text,
+  max_rows int default 500
+)
+returns table (chunk_id uuid, content text)
+language sql
+stable
+as $$
+  select c.id as chunk_id, c.content
+  from public.chat_chunks c
+  where c.user_id = auth.uid()
+    and not exists (
+      select 1 from public.chunk_embeddings e
+      where e.chunk_id = c.id and e.version = target_version
+    )
+  order by c.id
+  limit max_rows;
+$$;
+
+-- Cut-over (and rollback): runs as one transaction, so searches see either
+-- the old serving copy or the new one, never a mix. Chunks without a vector
+-- in target_version are left unembedded for embedMissingChunks, and
+-- summaries embedded with another version are cleared for re-embedding.
+create or replace function activate_embedding_version(
+  target_version text,
+  new_settings jsonb
+)
+returns table (switched bigint, missing bigint)
+language plpgsql
+as $$
+declare
+  uid uuid := auth.uid();
+  switched_count bigint;
+  missing_count bigint;
+begin
+  insert into public.chunk_embeddings
+    (chunk_id, user_id, version, embedding, embedding_model, embedding_dimensions)
+  select c.id, c.user_id, c.embedding_model || '@' || c.embedding_dimensions,
+    c.embedding, c.embedding_model, c.embedding_dimensions
+  from public.chat_chunks c
+  where c.user_id = uid
+    and c.embedding is not null
+    and c.embedding_model is not null
+  on conflict (chunk_id, version) do update
+    set embedding = excluded.embedding;
+
+  update public.chat_chunks c
+    set embedding = e.embedding,
+      embedding_model = e.embedding_model,
+      embedding_dimensions = e.embedding_dimensions
+    from public.chunk_embeddings e
+    where c.user_id = uid
+      and e.chunk_id = c.id
+      and e.version = target_version;
+  get diagnostics switched_count = row_count;
+
+  update public.chat_chunks c
+    set embedding = null, embedding_model = null, embedding_dimensions = null
+    where c.user_id = uid
+      and not exists (
+        select 1 from public.chunk_embeddings e
+        where e.chunk_id = c.id and e.version = target_version
+      );
+  get diagnostics missing_count = row_count;
+
+  update public.chat_summaries s
+    set embedding = null, embedding_model = null, embedding_dimensions = null
+    where s.user_id = uid
+      and s.embedding is not null
+      and s.embedding_model || '@' || s.embedding_dimensions
+        is distinct from target_version;
+
+  insert into public.workspace_settings (user_id, embedding, updated_at)
+  values (uid, new_settings, timezone('utc'::text, now()))
+  on conflict (user_id) do update
+    set embedding = excluded.embedding, updated_at = excluded.updated_at;
+
+  return query select switched_count, missing_count;
+end;
+$$;
+
+-- Search only compares vectors of the query's version: workspaces may be on
+-- different versions, and search is global (see 006_global_kb.sql)
+drop function if exists search_chat_chunks_hybrid(text, vector, float, int, int, uuid, jsonb);
+create or replace function search_chat_chunks_hybrid(
+  query_text text,
+  query_embedding vector(1536),
+  match_threshold float default 0.20,
+  lexical_limit int default 300,
+  final_k int default 20,
+  target_user_id uuid default auth.uid(),
+  metadata_filter jsonb default null,
+  query_embedding_model text default null,
+  query_embedding_dimensions int default null
+)
+returns table (
+  chunk_id uuid,
+  content text,
+  participants text[],
+  start_time timestamp with time zone,
+  end_time timestamp with time zone,
+  original_filename text,
+  metadata jsonb,
+  similarity float
+)
+language plpgsql
+security definer
+as $$
+begin
+  perform set_config('ivfflat.probes', '10', true);
+  return query
+  select
+    c.id as chunk_id,
+    c.content,
+    c.participants,
+    c.start_time,
+    c.end_time,
+    c.original_filename,
+    c.metadata,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from (
+    with lexical as (
+      select cc.id
+      from public.chat_chunks as cc
+      where (metadata_filter is null or cc.metadata @> metadata_filter)
+        and (query_embedding_model is null or cc.embedding_model = query_embedding_model)
+        and (query_embedding_dimensions is null or cc.embedding_dimensions = query_embedding_dimensions)
+      order by ts_rank_cd(to_tsvector('english', cc.content), plainto_tsquery('english', query_text)) desc
+      limit lexical_limit
+    )
+    select cc.*
+    from lexical l
+    join public.chat_chunks cc on cc.id = l.id
+  ) as c
+  where 1 - (c.embedding <=> query_embedding) > match_threshold
+  order by c.embedding <=> query_embedding
+  limit final_k;
+end;
+$$;
+
+drop function if exists search_chat_summaries(vector, float, int, text[]);
+create or replace function search_chat_summaries(
+  query_embedding vector(1536),
+  match_threshold float default 0.2,
+  match_count int default 5,
+  target_levels text[] default array['day', 'week', 'topic'],
+  query_embedding_model text default null,
+  query_embedding_dimensions int default null
+)
+returns table (
+  summary_id uuid,
+  level text,
+  summary_key text,
+  title text,
+  content text,
+  period_start timestamp with time zone,
+  period_end timestamp with time zone,
+  participants text[],
+  chunk_ids uuid[],
+  similarity float
+)
+language plpgsql
+security definer
+as $$
+begin
+  perform set_config('ivfflat.probes', '10', true);
+  return query
+  select
+    s.id as summary_id,
+    s.level,
+    s.summary_key,
+    s.title,
+    s.content,
+    s.period_start,
+    s.period_end,
+    s.participants,
+    s.chunk_ids,
+    1 - (s.embedding <=> query_embedding) as similarity
+  from public.chat_summaries s
+  where s.embedding is not null
+    and s.level = any(target_levels)
+    and (query_embedding_model is null or s.embedding_model = query_embedding_model)
+    and (query_embedding_dimensions is null or s.embedding_dimensions = query_embedding_dimensions)
+    and 1 - (s.embedding <=> query_embedding) > match_threshold
+  order by s.embedding <=> query_embedding
+  limit match_count;
+end;
+$$;
+
+drop function if exists search_chunks_by_ids(vector, uuid[], int);
+create or replace function search_chunks_by_ids(
+  query_embedding vector(1536),
+  target_chunk_ids uuid[],
+  match_count int default 5,
+  query_embedding_model text default null,
+  query_embedding_dimensions int default null
+)
+returns table (
+  chunk_id uuid,
+  content text,
+  participants text[],
+  start_time timestamp with time zone,
+  end_time timestamp with time zone,
+  original_filename text,
+  metadata jsonb,
+  similarity float
+)
+language sql
+security definer
+stable
+as $$
+  select
+    c.id as chunk_id,
+    c.content,
+    c.participants,
+    c.start_time,
+    c.end_time,
+    c.original_filename,
+    c.metadata,
+    1 - (c.embedding <=> query_embedding) as similarity
+  from public.chat_chunks c
+  where c.id = any(target_chunk_ids)
+    and c.embedding is not null
+    and (query_embedding_model is null or c.embedding_model = query_embedding_model)
+    and (query_embedding_dimensions is null or c.embedding_dimensions = query_embedding_dimensions)
+  order by c.embedding <=> query_embedding
+  limit match_count;
+$$;
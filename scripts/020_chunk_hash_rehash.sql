@@ -0,0 +1,112 @@
+-- Chunk hashes were a 32-bit rolling hash ("h123...") under a global unique
+-- index, so two different chunks, possibly of different users, could share
+-- a hash and the later upsert overwrote the earlier row. This script:
+--   1. replaces the global index with one per user,
+--   2. rehashes every row with sha256 (same input as chunkHash in lib/rag),
+--   3. records what it found in chunk_hash_rehash_report and removes true
+--      duplicates within a user (same hash and same content; oldest kept).
+-- Rows whose sha256 matches while their content differs stop the script with
+-- an exception listing them, and everything above (report included) is
+-- rolled back; re-run it once they are resolved.
+
+create or replace function chunk_content_hash(
+  participants text[],
+  start_time timestamp with time zone,
+  end_time timestamp with time zone,
+  content text
+)
+returns text
+language sql
+immutable
+as $$
+  select encode(sha256(convert_to(
+    coalesce(array_to_string(participants, ','), '') || '|' ||
+    coalesce(to_char(start_time at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'), '') || '|' ||
+    coalesce(to_char(end_time at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.MS"Z"'), '') || '|' ||
+    content,
+    'UTF8'
+  )), 'hex');
+$$;
+
+-- Operator-only: RLS on, no policies
+create table if not exists public.chunk_hash_rehash_report (
+  id bigserial primary key,
+  user_id uuid not null,
+  chunk_hash text not null,
+  -- duplicate: same content, extra rows removed
+  -- collision: different content under one hash; the script fails on these,
+  -- so they only show up in its error detail
+  kind text not null check (kind in ('duplicate', 'collision')),
+  kept_chunk_id uuid,
+  chunk_ids uuid[] not null,
+  legacy_hashes text[] not null,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null
+);
+
+alter table public.chunk_hash_rehash_report enable row level security;
+
+do $$
+declare
+  rehashed bigint;
+  duplicate_groups bigint;
+  collision_groups bigint;
+  collisions text;
+  removed bigint;
+begin
+  drop index if exists public.idx_chat_chunks_hash;
+
+  create temp table chunk_legacy_hashes on commit drop as
+    select id, chunk_hash as legacy_hash from public.chat_chunks;
+
+  update public.chat_chunks
+    set chunk_hash = chunk_content_hash(participants, start_time, end_time, content)
+    where chunk_hash is distinct from
+      chunk_content_hash(participants, start_time, end_time, content);
+  get diagnostics rehashed = row_count;
+
+  create temp table chunk_hash_groups on commit drop as
+    select
+      c.user_id,
+      c.chunk_hash,
+      case when count(distinct c.content) = 1 then 'duplicate' else 'collision' end as kind,
+      array_agg(c.id order by c.created_at, c.id) as chunk_ids,
+      array_agg(l.legacy_hash order by c.created_at, c.id) as legacy_hashes
+    from public.chat_chunks c
+    join chunk_legacy_hashes l on l.id = c.id
+    group by c.user_id, c.chunk_hash
+    having count(*) > 1;
+
+  insert into public.chunk_hash_rehash_report
+    (user_id, chunk_hash, kind, kept_chunk_id, chunk_ids, legacy_hashes)
+  select user_id, chunk_hash, kind,
+    case when kind = 'duplicate' then chunk_ids[1] end,
+    chunk_ids, legacy_hashes
+  from chunk_hash_groups;
+
+  select count(*) filter (where kind = 'duplicate'),
+         count(*) filter (where kind = 'collision')
+    into duplicate_groups, collision_groups
+    from chunk_hash_groups;
+
+  delete from public.chat_chunks c
+    using chunk_hash_groups g
+    where g.kind = 'duplicate'
+      and c.id = any(g.chunk_ids[2:]);
+  get diagnostics removed = row_count;
+
+  raise notice 'chunk rehash: % rows rehashed, % duplicate groups (% rows removed), % collisions',
+    rehashed, duplicate_groups, removed, collision_groups;
+
+  if collision_groups > 0 then
+    select string_agg(format('user %s, hash %s: chunks %s', user_id, chunk_hash, chunk_ids), E'\n')
+      into collisions
+      from chunk_hash_groups
+      where kind = 'collision';
+    raise exception 'chunk rehash: % sha256 collisions between different contents; nothing was changed', collision_groups
+      using detail = collisions;
+  end if;
+
+  create unique index if not exists idx_chat_chunks_user_hash
+    on public.chat_chunks(user_id, chunk_hash);
+end;
+$$;
@@ -0,0 +1,30 @@
+-- Store a batch of chunk embeddings in one call instead of one PATCH per
+-- chunk. Vectors are passed as text ('[0.1,0.2,...]') since PostgREST has no
+-- vector[] input. A row is only written while its chunk_hash still matches,
+-- so a chunk edited after it was read keeps its cleared embedding and is
+-- picked up again. Returns the number of chunks written.
+create or replace function set_chunk_embeddings(
+  target_ids uuid[],
+  target_hashes text[],
+  embeddings text[],
+  model text,
+  dimensions int
+)
+returns int
+language plpgsql
+as $$
+declare
+  written int;
+begin
+  update public.chat_chunks c
+    set embedding = i.embedding::vector,
+      embedding_model = model,
+      embedding_dimensions = dimensions
+    from unnest(target_ids, target_hashes, embeddings) as i(id, chunk_hash, embedding)
+    where c.id = i.id
+      and c.chunk_hash = i.chunk_hash
+      and c.user_id = auth.uid();
+  get diagnostics written = row_count;
+  return written;
+end;
+$$;
@@ -0,0 +1,116 @@
+-- Content-addressed embedding cache shared by all users: one vector per
+-- (provider namespace, sha256 of the normalized text), see lib/embedding-cache.
+-- The namespace (kept in embedding_version) is the provider kind, the base URL
+-- for http servers, and model@dimensions. Only the server writes entries, with
+-- the service role: RLS without policies keeps the table closed to clients,
+-- and the functions below are revoked from them, since a client that could
+-- call put_cached_embeddings could plant vectors served to every other user.
+
+create table if not exists public.embedding_cache (
+  embedding_version text not null,
+  text_hash text not null,
+  embedding vector(1536) not null,
+  hits bigint not null default 0,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  last_used_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  primary key (embedding_version, text_hash)
+);
+
+create index if not exists idx_embedding_cache_last_used
+  on public.embedding_cache(last_used_at);
+
+alter table public.embedding_cache enable row level security;
+
+-- Entries keyed before namespaces included the provider may come from any
+-- server a request named; none of them can be trusted
+delete from public.embedding_cache where embedding_version not like '%|%';
+
+-- Lookup; every hit counts and refreshes the entry for eviction
+create or replace function get_cached_embeddings(
+  target_version text,
+  target_hashes text[]
+)
+returns table (text_hash text, embedding text)
+language sql
+security definer
+as $$
+  update public.embedding_cache e
+    set hits = e.hits + 1,
+      last_used_at = timezone('utc'::text, now())
+    where e.embedding_version = target_version
+      and e.text_hash = any(target_hashes)
+    returning e.text_hash, e.embedding::text;
+$$;
+
+create or replace function put_cached_embeddings(
+  target_version text,
+  target_hashes text[],
+  embeddings text[]
+)
+returns void
+language sql
+security definer
+as $$
+  insert into public.embedding_cache (embedding_version, text_hash, embedding)
+  select distinct on (t.text_hash) target_version, t.text_hash, t.embedding::vector
+  from unnest(target_hashes, embeddings) as t(text_hash, embedding)
+  on conflict (embedding_version, text_hash) do update
+    set last_used_at = timezone('utc'::text, now());
+$$;
+
+-- Least recently used first: drops entries unused for max_age_days, then
+-- everything beyond the max_entries most recently used. Returns rows removed.
+create or replace function evict_embedding_cache(
+  max_entries bigint default 200000,
+  max_age_days int default 90
+)
+returns bigint
+language plpgsql
+security definer
+as $$
+declare
+  expired bigint;
+  overflow bigint;
+begin
+  delete from public.embedding_cache
+    where last_used_at < timezone('utc'::text, now()) - make_interval(days => max_age_days);
+  get diagnostics expired = row_count;
+
+  delete from public.embedding_cache e
+    using (
+      select embedding_version, text_hash
+      from public.embedding_cache
+      order by last_used_at desc
+      offset max_entries
+    ) old
+    where e.embedding_version = old.embedding_version
+      and e.text_hash = old.text_hash;
+  get diagnostics overflow = row_count;
+
+  return expired + overflow;
+end;
+$$;
+
+create or replace function embedding_cache_summary()
+returns table (
+  entries bigint,
+  total_hits bigint,
+  oldest_used_at timestamp with time zone
+)
+language sql
+security definer
+stable
+as $$
+  select count(*), coalesce(sum(hits), 0)::bigint, min(last_used_at)
+  from public.embedding_cache;
+$$;
+
+revoke execute on function get_cached_embeddings(text, text[]) from public, anon, authenticated;
+revoke execute on function put_cached_embeddings(text, text[], text[]) from public, anon, authenticated;
+revoke execute on function evict_embedding_cache(bigint, int) from public, anon, authenticated;
+revoke execute on function embedding_cache_summary() from public, anon, authenticated;
+
+grant execute on function get_cached_embeddings(text, text[]) to service_role;
+grant execute on function put_cached_embeddings(text, text[], text[]) to service_role;
+grant execute on function evict_embedding_cache(bigint, int) to service_role;
+grant execute on function embedding_cache_summary() to service_role;
@@ -0,0 +1,63 @@
+-- Summary layer builds (see lib/summary-builds). A first build makes one
+-- model call per day, week and long thread, more than one request can make
+-- before it is cut off, so builds go in bounded passes. One row per user
+-- tracks the current build (queued -> running -> done/failed); a build whose
+-- lease (locked_until) has expired or was handed off is picked up again by
+-- the next worker run.
+
+create table if not exists public.summary_builds (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  status text not null default 'queued'
+    check (status in ('queued', 'running', 'done', 'failed')),
+  time_zone text,
+  written int not null default 0,
+  unchanged int not null default 0,
+  deleted int not null default 0,
+  -- Summaries still out of date after the last pass
+  pending int not null default 0,
+  error text,
+  -- Runs in a row that ended without finishing a pass
+  attempts int not null default 0,
+  locked_until timestamp with time zone,
+  created_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  updated_at timestamp with time zone default timezone('utc'::text, now()) not null,
+  finished_at timestamp with time zone
+);
+
+alter table public.summary_builds enable row level security;
+
+create policy if not exists "Users can view their own summary builds"
+  on public.summary_builds for select
+  using (auth.uid() = user_id);
+
+create policy if not exists "Users can insert their own summary builds"
+  on public.summary_builds for insert
+  with check (auth.uid() = user_id);
+
+create policy if not exists "Users can update their own summary builds"
+  on public.summary_builds for update
+  using (auth.uid() = user_id);
+
+-- Atomically take the build lease. Returns false when there is no build to
+-- run or another worker still holds an unexpired lease.
+create or replace function claim_summary_build(
+  lease_seconds int default 120
+)
+returns boolean
+language plpgsql
+as $$
+declare
+  claimed uuid;
+begin
+  update public.summary_builds
+  set status = 'running',
+      locked_until = timezone('utc'::text, now()) + make_interval(secs => lease_seconds),
+      attempts = attempts + 1,
+      updated_at = timezone('utc'::text, now())
+  where user_id = auth.uid()
+    and status not in ('done', 'failed')
+    and (locked_until is null or locked_until < timezone('utc'::text, now()))
+  returning user_id into claimed;
+  return claimed is not null;
+end;
+$$;